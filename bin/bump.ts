@@ -0,0 +1,39 @@
+import { defineCommandOptions } from "@tools/command.ts";
+import { Git } from "@tools/git.ts";
+import { getReleasePlan } from "@tools/release.ts";
+
+export default defineCommandOptions({
+  name: "bump",
+  description: "Recommends the next version based on the commits since the latest tag.",
+  flags: {
+    prerelease: {
+      name: "prerelease",
+      abbreviation: "p",
+      type: "string",
+      description: "The prerelease identifier to use, like rc in 1.2.0-rc.1.",
+      options: {},
+    },
+  },
+  action(options) {
+    const plan = getReleasePlan(new Git(), { prerelease: options.prerelease });
+    const from = plan.latestTag || "the first commit";
+
+    globalThis.logger.info(
+      `Found ${plan.commits.length} commit(s) since ${from}. ${plan.recommendation.reason}`,
+    );
+
+    for (const commit of plan.recommendation.commits) {
+      globalThis.logger.debug(`${commit.id} ${commit.subject}`);
+    }
+
+    if (!plan.next) {
+      return;
+    }
+
+    globalThis.logger.info(
+      `Next version: ${plan.current.tag} -> ${plan.next.tag} (${plan.type}).`,
+    );
+
+    console.log(plan.next.version);
+  },
+});
@@ -0,0 +1,85 @@
+import {
+  createChangelogSection,
+  prependChangelogSection,
+  renderChangelogSection,
+} from "@tools/changelog.ts";
+import { defineCommandOptions } from "@tools/command.ts";
+import { readTextFileOrDefault } from "@tools/filesystem.ts";
+import { Git } from "@tools/git.ts";
+import { getReleasePlan } from "@tools/release.ts";
+
+export default defineCommandOptions({
+  name: "changelog",
+  description: "Adds the changes since the latest version tag to the changelog.",
+  flags: {
+    release: {
+      name: "release",
+      abbreviation: "r",
+      type: "version",
+      description: "The type of release. Inferred from the commits when not given.",
+      options: {},
+    },
+    prerelease: {
+      name: "prerelease",
+      abbreviation: "p",
+      type: "string",
+      description: "The prerelease identifier to use, like rc in 1.2.0-rc.1.",
+      options: {},
+    },
+    format: {
+      name: "format",
+      abbreviation: "f",
+      type: "format",
+      description: "The format used to print the generated section.",
+      options: { default: "markdown" },
+    },
+    file: {
+      name: "file",
+      type: "file",
+      description: "The path to the changelog file.",
+      options: { default: "CHANGELOG.md" },
+    },
+  },
+  action(options) {
+    const { format = "markdown", file = "CHANGELOG.md" } = options;
+    const { latestTag, commits, next } = getReleasePlan(new Git(), {
+      type: options.release,
+      prerelease: options.prerelease,
+    });
+
+    const since = latestTag ? `since ${latestTag}` : "in the history";
+
+    if (!next) {
+      globalThis.logger.warn(`There are no changes to release ${since}.`);
+      return;
+    }
+
+    const section = createChangelogSection(next, commits);
+
+    if (Object.keys(section.changes).length === 0) {
+      globalThis.logger.warn(
+        `None of the ${commits.length} commit(s) ${since} belong in ${file}, it's left as it is.`,
+      );
+      return;
+    }
+
+    const markdown = renderChangelogSection(section);
+
+    if (format === "json") {
+      console.log(JSON.stringify(section, null, 2));
+    } else {
+      console.log(markdown);
+    }
+
+    if (options.dryRun) {
+      globalThis.logger.info(`[dry-run] Would add the section ${next.tag} to ${file}.`);
+      return;
+    }
+
+    const content = readTextFileOrDefault(file);
+
+    Deno.writeTextFileSync(file, prependChangelogSection(content, markdown));
+
+    globalThis.logger.info(`Added the section ${next.tag} to ${file}.`);
+  },
+});
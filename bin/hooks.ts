@@ -0,0 +1,90 @@
+import { defineCommandOptions } from "@tools/command.ts";
+import { joinPaths, resolvePath } from "@tools/deps.ts";
+import { readTextFileOrDefault } from "@tools/filesystem.ts";
+import { Git } from "@tools/git.ts";
+import {
+  getHooksConfig,
+  HOOK_NAMES,
+  isManagedHook,
+  renderHookScript,
+} from "@tools/hooks.ts";
+import { tryCatch } from "@tools/try-catch.ts";
+
+export default defineCommandOptions({
+  name: "hooks",
+  description: "Installs, lists or removes the Git hooks configured in deno.json.",
+  flags: {
+    config: {
+      name: "config",
+      abbreviation: "c",
+      type: "file",
+      description: "The path to the deno.json file with the toolkit.hooks section.",
+      options: { default: "deno.json" },
+    },
+  },
+  arguments: [{ name: "action", type: "hook-action" }],
+  action(options, action) {
+    const { config: configPath = "deno.json", dryRun } = options;
+    const config = getHooksConfig(readTextFileOrDefault(configPath));
+    const git = new Git();
+    const hooksPath = tryCatch(() => git.config("core.hooksPath"), "");
+    // Git resolves core.hooksPath against the root of the repository, not the cwd.
+    const root = git({ args: ["rev-parse", "--show-toplevel"] });
+    const directory = resolvePath(root, config.directory);
+    const isHooksPathSet = hooksPath !== "" && resolvePath(root, hooksPath) === directory;
+    const sideEffect = (description: string, fn: () => unknown) => {
+      if (dryRun) {
+        globalThis.logger.info(`[dry-run] ${description}`);
+        return;
+      }
+
+      globalThis.logger.info(description);
+      fn();
+    };
+
+    for (const name of HOOK_NAMES) {
+      const path = joinPaths(directory, name);
+      const command = config.commands[name];
+      const current = readTextFileOrDefault(path);
+      const isManaged = isManagedHook(current);
+
+      if (action === "list") {
+        const state = isManaged && isHooksPathSet ? "installed" : "missing";
+
+        globalThis.logger.info(`${name}: ${command || "(not configured)"} [${state}]`);
+        continue;
+      }
+
+      if (current && !isManaged) {
+        globalThis.logger.warn(`Skipping ${path}, it wasn't created by the toolkit.`);
+        continue;
+      }
+
+      if (action === "install" && command) {
+        sideEffect(`Writing ${path} to run "${config.runner} ${command}".`, () => {
+          Deno.mkdirSync(directory, { recursive: true });
+          Deno.writeTextFileSync(path, renderHookScript(config.runner, command), {
+            mode: 0o755,
+          });
+        });
+        continue;
+      }
+
+      if (isManaged) {
+        sideEffect(`Removing ${path}.`, () => Deno.removeSync(path));
+      }
+    }
+
+    if (action === "install" && !isHooksPathSet) {
+      sideEffect(`Setting core.hooksPath to ${config.directory}.`, () =>
+        git.config("core.hooksPath", config.directory),
+      );
+    }
+
+    if (action === "remove" && isHooksPathSet) {
+      sideEffect("Unsetting core.hooksPath.", () =>
+        git.config("core.hooksPath", undefined, { unset: true }),
+      );
+    }
+  },
+});
@@ -0,0 +1,91 @@
+import { defineCommandOptions } from "@tools/command.ts";
+import { getUnreleasedCommits } from "@tools/commits.ts";
+import { readTextFileOrDefault } from "@tools/filesystem.ts";
+import { Commit, Git } from "@tools/git.ts";
+import {
+  getLintCommitConfig,
+  lintCommitMessage,
+  RuleSeverity,
+} from "@tools/lint-commit.ts";
+
+export default defineCommandOptions({
+  name: "lint-commit",
+  description: "Checks commit messages against the rules configured in deno.json.",
+  flags: {
+    file: {
+      name: "file",
+      abbreviation: "f",
+      type: "file",
+      description:
+        "A file with the message to check, like the one of the commit-msg hook.",
+      options: {},
+    },
+    range: {
+      name: "range",
+      type: "string",
+      description:
+        "The commits to check, like main..HEAD. Defaults to the unreleased ones.",
+      options: {},
+    },
+    config: {
+      name: "config",
+      abbreviation: "c",
+      type: "file",
+      description: "The path to the deno.json file with the toolkit.lintCommit section.",
+      options: { default: "deno.json" },
+    },
+  },
+  action(options) {
+    const config = getLintCommitConfig(
+      readTextFileOrDefault(options.config || "deno.json"),
+    );
+    const messages = options.file
+      ? [{ label: options.file, message: Deno.readTextFileSync(options.file) }]
+      : getCommitMessages(options.range);
+    let errors = 0;
+    let warnings = 0;
+
+    for (const { label, message } of messages) {
+      const problems = lintCommitMessage(message, config);
+
+      if (problems.length === 0) {
+        globalThis.logger.debug(`${label}: no problems found.`);
+        continue;
+      }
+
+      for (const problem of problems) {
+        const text = `${label}: ${problem.message} [${problem.rule}]`;
+
+        if (problem.severity === RuleSeverity.Error) {
+          errors++;
+          globalThis.logger.error(text);
+        } else {
+          warnings++;
+          globalThis.logger.warn(text);
+        }
+      }
+    }
+
+    globalThis.logger.info(
+      `Checked ${messages.length} message(s): ${errors} error(s), ${warnings} warning(s).`,
+    );
+
+    if (errors > 0) {
+      Deno.exit(1);
+    }
+  },
+});
+
+function getCommitMessages(range?: string) {
+  const git = new Git();
+  const commits: Pick<Commit, "id" | "subject" | "body" | "parents">[] = range
+    ? git.log({}, range)
+    : getUnreleasedCommits(git).commits;
+
+  return commits
+    .filter((commit) => commit.parents.length < 2)
+    .map((commit) => ({
+      label: commit.id,
+      message: [commit.subject, commit.body].join("\n\n"),
+    }));
+}
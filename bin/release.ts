@@ -0,0 +1,146 @@
+import {
+  createChangelogSection,
+  prependChangelogSection,
+  renderChangelogSection,
+} from "@tools/changelog.ts";
+import { defineCommandOptions } from "@tools/command.ts";
+import { readTextFileOrDefault } from "@tools/filesystem.ts";
+import { Git } from "@tools/git.ts";
+import { appendGithubOutputs } from "@tools/github.ts";
+import { getReleasePlan, replaceVersionField, VERSION_FILES } from "@tools/release.ts";
+
+export default defineCommandOptions({
+  name: "release",
+  description: "Bumps the version, updates the changelog, commits and tags a release.",
+  flags: {
+    release: {
+      name: "release",
+      abbreviation: "r",
+      type: "version",
+      description: "The type of release. Inferred from the commits when not given.",
+      options: {},
+    },
+    prerelease: {
+      name: "prerelease",
+      abbreviation: "p",
+      type: "string",
+      description: "The prerelease identifier to use, like rc in 1.2.0-rc.1.",
+      options: {},
+    },
+    changelog: {
+      name: "changelog",
+      type: "file",
+      description: "The path to the changelog file.",
+      options: { default: "CHANGELOG.md" },
+    },
+    message: {
+      name: "message",
+      abbreviation: "m",
+      type: "string",
+      description: "The release commit and tag message. Use {tag} to insert the tag.",
+      options: { default: ":bookmark: Release {tag}" },
+    },
+    push: {
+      name: "push",
+      type: "boolean",
+      description: "Pushes the release commit and tag to the remote.",
+      options: { default: false },
+    },
+  },
+  action(options) {
+    const {
+      changelog = "CHANGELOG.md",
+      message = ":bookmark: Release {tag}",
+      push = false,
+      dryRun,
+      githubOutput,
+    } = options;
+    const git = new Git();
+    const plan = getReleasePlan(git, {
+      type: options.release,
+      prerelease: options.prerelease,
+    });
+
+    if (!plan.next) {
+      globalThis.logger.warn(plan.recommendation.reason);
+      return;
+    }
+
+    const { next } = plan;
+    const sideEffect = (description: string, fn: () => unknown) => {
+      if (dryRun) {
+        globalThis.logger.info(`[dry-run] ${description}`);
+        return;
+      }
+
+      globalThis.logger.info(description);
+      fn();
+    };
+
+    globalThis.logger.info(
+      `Releasing ${plan.current.tag} -> ${next.tag}. ${plan.recommendation.reason}`,
+    );
+
+    const changedFiles: string[] = [];
+
+    for (const file of VERSION_FILES) {
+      const content = readTextFileOrDefault(file);
+      const updated = replaceVersionField(content, next.version);
+
+      if (updated === null) continue;
+
+      changedFiles.push(file);
+      sideEffect(`Setting the version of ${file} to ${next.version}.`, () =>
+        Deno.writeTextFileSync(file, updated),
+      );
+    }
+
+    const changelogSection = createChangelogSection(next, plan.commits);
+    const section = renderChangelogSection(changelogSection);
+
+    if (Object.keys(changelogSection.changes).length === 0) {
+      globalThis.logger.warn(
+        `None of the ${plan.commits.length} commit(s) belong in ${changelog}, it's left as it is.`,
+      );
+    } else {
+      const content = prependChangelogSection(readTextFileOrDefault(changelog), section);
+
+      changedFiles.push(changelog);
+      sideEffect(`Adding the section ${next.tag} to ${changelog}.`, () =>
+        Deno.writeTextFileSync(changelog, content),
+      );
+    }
+
+    const releaseMessage = message.replaceAll("{tag}", next.tag);
+
+    if (changedFiles.length > 0) {
+      sideEffect(
+        `Committing ${changedFiles.join(", ")} with "${releaseMessage}".`,
+        () => {
+          git.add(...changedFiles);
+          git.commit(releaseMessage);
+        },
+      );
+    }
+
+    sideEffect(`Creating the annotated tag ${next.tag}.`, () =>
+      git.tag(next.tag, { annotate: true, message: releaseMessage }),
+    );
+
+    if (push) {
+      sideEffect(`Pushing the release commit and ${next.tag}.`, () =>
+        git.push(undefined, [], { followTags: true }),
+      );
+    }
+
+    if (githubOutput) {
+      sideEffect(`Writing the version, tag and changelog to ${githubOutput}.`, () =>
+        appendGithubOutputs(githubOutput, {
+          version: next.version,
+          tag: next.tag,
+          changelog: section,
+        }),
+      );
+    }
+  },
+});
@@ -21,15 +21,16 @@ export const run = new Command()
   .description("Toolkit command runner.")
   .version("0.1.0")
   .globalType("version", new EnumType(["major", "minor", "patch"]))
+  .globalType("format", new EnumType(["markdown", "json"]))
+  .globalType("hook-action", new EnumType(["install", "list", "remove"]))
   .env("TOOLKIT_BIN_DIR=<path:string>", "The scripts directory of your project", {
     prefix: ENV_PREFIX,
     required: false,
     global: true,
   })
-  .globalType("severity", new EnumType(LoggerConfig.SeverityName))
   .env(
-    "TOOLKIT_LOGGER_LEVEL=<level:severity>",
-    "Logger level to use while running commands.",
+    "TOOLKIT_LOGGER_LEVEL=<level:string>",
+    "Logger level to use while running commands, with optional per-module levels like INFO,process:DEBUG.",
     {
       prefix: ENV_PREFIX,
       required: false,
@@ -69,9 +70,14 @@ export const run = new Command()
   });
 
 const localPaths = tryCatch(getLocalPaths.bind(null, env.BIN_DIR, { skip: [/^_/] }), []);
-const defaultPaths = ["init-deno.ts"].map(
-  (p) => "https://cdn.jsdelivr.net/gh/toridoriv/my-dev-toolkit@main/bin/" + p,
-);
+const defaultPaths = [
+  "init-deno.ts",
+  "changelog.ts",
+  "bump.ts",
+  "release.ts",
+  "hooks.ts",
+  "lint-commit.ts",
+].map((p) => "https://cdn.jsdelivr.net/gh/toridoriv/my-dev-toolkit@main/bin/" + p);
 
 const subcommands = (
   await Promise.all(localPaths.concat(...defaultPaths).map(getAllModuleImports))
@@ -156,15 +162,17 @@ function getSetup() {
     ),
     LOG_SEVERITY: getFromEnvironment(
       "TOOLKIT_LOGGER_LEVEL",
-      LoggerConfig.SeverityNameSchema.default(
-        LoggerConfig.SeverityName.Informational,
-      ).catch(LoggerConfig.SeverityName.Informational),
+      LoggerConfig.SeveritySpecSchema.default(LoggerConfig.SeverityName.Info).catch({
+        severity: LoggerConfig.SeverityName.Info,
+        modules: {},
+      }),
     ),
   };
 
   const logger = new Logger({
     application: "run",
-    severity: env.LOG_SEVERITY,
+    severity: env.LOG_SEVERITY.severity,
+    modules: env.LOG_SEVERITY.modules,
     environment: "",
     mode: LoggerConfig.Mode.Pretty,
   });
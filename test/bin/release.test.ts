@@ -0,0 +1,123 @@
+import release from "@bin/release.ts";
+import { Git } from "@tools/git.ts";
+import { LogCapture, withGlobalLogger } from "@tools/logger-testing.ts";
+import { expect } from "../dependencies.ts";
+
+type ReleaseOptions = Parameters<typeof release.action>[0];
+
+function createRepository() {
+  const cwd = Deno.makeTempDirSync({ prefix: "toolkit-release-" });
+  const git = new Git({ cwd });
+
+  git.init({ initialBranch: "main", quiet: true });
+  git.config("user.name", "Jane Doe");
+  git.config("user.email", "jane@example.com");
+  git.config("commit.gpgsign", "false");
+  git.config("tag.gpgsign", "false");
+
+  commitFile({ cwd, git }, "deno.json", '{\n  "version": "0.1.0"\n}\n', "feat: first");
+  git.tag("v0.1.0");
+
+  return { cwd, git, remove: () => Deno.removeSync(cwd, { recursive: true }) };
+}
+
+function commitFile(
+  repo: { cwd: string; git: Git },
+  path: string,
+  content: string,
+  message: string,
+) {
+  Deno.writeTextFileSync(`${repo.cwd}/${path}`, content);
+  repo.git.add(path);
+  repo.git.commit(message);
+}
+
+async function runRelease(cwd: string, options: Partial<ReleaseOptions> = {}) {
+  const capture = new LogCapture();
+  const previous = Deno.cwd();
+
+  Deno.chdir(cwd);
+
+  try {
+    await withGlobalLogger(capture.logger, () =>
+      release.action({ dryRun: false, ...options } as ReleaseOptions),
+    );
+  } finally {
+    Deno.chdir(previous);
+  }
+
+  return capture;
+}
+
+Deno.test(
+  "release bumps the version, adds the changelog and tags the commit",
+  async () => {
+    const repo = createRepository();
+
+    try {
+      commitFile(repo, "a.txt", "a", "fix: handle empty output");
+
+      await runRelease(repo.cwd);
+
+      const [commit] = repo.git.log();
+      const changelog = Deno.readTextFileSync(`${repo.cwd}/CHANGELOG.md`);
+
+      expect(commit.subject).to.equal(":bookmark: Release v0.1.1");
+      expect(repo.git.tags().map((tag) => tag.name)).to.deep.equal(["v0.1.0", "v0.1.1"]);
+      expect(Deno.readTextFileSync(`${repo.cwd}/deno.json`)).to.include('"0.1.1"');
+      expect(changelog).to.include("## [v0.1.1]");
+      expect(changelog).to.include("handle empty output");
+      expect(repo.git.status().clean).to.equal(true);
+    } finally {
+      repo.remove();
+    }
+  },
+);
+
+Deno.test("release only logs the side effects in a dry run", async () => {
+  const repo = createRepository();
+
+  try {
+    commitFile(repo, "a.txt", "a", "feat: add tags");
+
+    const capture = await runRelease(repo.cwd, { dryRun: true });
+
+    capture.expectLogged({ message: /^Releasing v0\.1\.0 -> v0\.2\.0\./ });
+    capture.expectLogged({
+      message: "[dry-run] Adding the section v0.2.0 to CHANGELOG.md.",
+    });
+    capture.expectLogged({ message: "[dry-run] Creating the annotated tag v0.2.0." });
+    expect(repo.git.tags().map((tag) => tag.name)).to.deep.equal(["v0.1.0"]);
+    expect(repo.git.log()[0].subject).to.equal("feat: add tags");
+    expect(Deno.readTextFileSync(`${repo.cwd}/deno.json`)).to.include('"0.1.0"');
+    expect(() => Deno.statSync(`${repo.cwd}/CHANGELOG.md`)).to.throw(
+      Deno.errors.NotFound,
+    );
+  } finally {
+    repo.remove();
+  }
+});
+
+Deno.test(
+  "release leaves the changelog untouched when no commit belongs in it",
+  async () => {
+    const repo = createRepository();
+
+    try {
+      commitFile(repo, "a.txt", "a", "chore: update deps");
+
+      const capture = await runRelease(repo.cwd, { release: "patch" });
+
+      capture.expectLogged({
+        level: "WARN",
+        message: /CHANGELOG\.md, it's left as it is/,
+      });
+      expect(repo.git.tags().map((tag) => tag.name)).to.deep.equal(["v0.1.0", "v0.1.1"]);
+      expect(() => Deno.statSync(`${repo.cwd}/CHANGELOG.md`)).to.throw(
+        Deno.errors.NotFound,
+      );
+    } finally {
+      repo.remove();
+    }
+  },
+);
@@ -0,0 +1,68 @@
+import { ColorLevel, createAnsi, detectColorLevel, stripAnsi } from "@tools/ansi.ts";
+import { expect } from "../dependencies.ts";
+
+const ESC = "\u001b";
+
+Deno.test(
+  "detectColorLevel() honours NO_COLOR, FORCE_COLOR, TERM and the terminal",
+  () => {
+    const detect = (env: Record<string, string>, isTerminal = true) =>
+      detectColorLevel({ env, isTerminal });
+
+    expect(detect({})).to.equal(ColorLevel.Basic);
+    expect(detect({}, false)).to.equal(ColorLevel.None);
+    expect(detect({ NO_COLOR: "1" })).to.equal(ColorLevel.None);
+    expect(detect({ TERM: "dumb" })).to.equal(ColorLevel.None);
+    expect(detect({ TERM: "xterm-256color" })).to.equal(ColorLevel.Ansi256);
+    expect(detect({ COLORTERM: "truecolor" })).to.equal(ColorLevel.TrueColor);
+    expect(detect({ FORCE_COLOR: "0" })).to.equal(ColorLevel.None);
+    expect(detect({ FORCE_COLOR: "" }, false)).to.equal(ColorLevel.Basic);
+    expect(detect({ FORCE_COLOR: "3", NO_COLOR: "1" }, false)).to.equal(
+      ColorLevel.TrueColor,
+    );
+  },
+);
+
+Deno.test("detectColorLevel() works without Deno.stdout.isTerminal()", () => {
+  const descriptor = Object.getOwnPropertyDescriptor(Deno.stdout, "isTerminal");
+
+  Object.defineProperty(Deno.stdout, "isTerminal", {
+    value: undefined,
+    configurable: true,
+  });
+
+  try {
+    expect(detectColorLevel({ env: { NO_COLOR: "1" } })).to.equal(ColorLevel.None);
+    expect(detectColorLevel({ env: { FORCE_COLOR: "2" } })).to.equal(ColorLevel.Ansi256);
+  } finally {
+    if (descriptor) {
+      Object.defineProperty(Deno.stdout, "isTerminal", descriptor);
+    } else {
+      delete (Deno.stdout as { isTerminal?: unknown }).isTerminal;
+    }
+  }
+});
+
+Deno.test("createAnsi() chains styles and reopens them after nested ones", () => {
+  const ansi = createAnsi(ColorLevel.Basic);
+
+  expect(ansi.bold.red("Oops!")).to.equal(`${ESC}[1m${ESC}[31mOops!${ESC}[39m${ESC}[22m`);
+  expect(ansi.red(`a ${ansi.green("b")} c`)).to.equal(
+    `${ESC}[31ma ${ESC}[32mb${ESC}[39m${ESC}[31m c${ESC}[39m`,
+  );
+  expect(createAnsi(ColorLevel.None).bold.bgRed.white("Oops!")).to.equal("Oops!");
+  expect(stripAnsi(ansi.underline.cyan("Link"))).to.equal("Link");
+});
+
+Deno.test("createAnsi() downsamples colors to the color level", () => {
+  expect(createAnsi(ColorLevel.TrueColor).hex("#ff8800")("x")).to.equal(
+    `${ESC}[38;2;255;136;0mx${ESC}[39m`,
+  );
+  expect(createAnsi(ColorLevel.Ansi256).rgb(255, 136, 0)("x")).to.equal(
+    `${ESC}[38;5;214mx${ESC}[39m`,
+  );
+  expect(createAnsi(ColorLevel.Basic).bgRgb(255, 0, 0)("x")).to.equal(
+    `${ESC}[101mx${ESC}[49m`,
+  );
+  expect(createAnsi(ColorLevel.Basic).ansi256(9)("x")).to.equal(`${ESC}[91mx${ESC}[39m`);
+});
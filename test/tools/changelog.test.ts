@@ -0,0 +1,62 @@
+import {
+  getChangeCategory,
+  prependChangelogSection,
+  renderChangelogSection,
+} from "@tools/changelog.ts";
+import { parseCommitSubject } from "@tools/commits.ts";
+import { expect } from "../dependencies.ts";
+
+const section = {
+  version: "1.1.0",
+  tag: "v1.1.0",
+  date: "2024-01-01",
+  changes: {
+    Added: [
+      {
+        id: "a1b2c3d",
+        hash: "a1b2c3d4e5",
+        scope: "git",
+        description: "Add tags",
+        breaking: false,
+        breakingChange: null,
+      },
+    ],
+  },
+};
+
+Deno.test("getChangeCategory() keeps breaking changes of ignored types", () => {
+  expect(getChangeCategory(parseCommitSubject("chore: bump deps"))).to.equal(null);
+  expect(getChangeCategory(parseCommitSubject("chore!: drop deno 1.37"))).to.equal(
+    "Changed",
+  );
+});
+
+Deno.test("getChangeCategory() ignores merges and unknown types", () => {
+  const merge = parseCommitSubject("Merge pull request #12 from toridoriv/feature");
+
+  expect(getChangeCategory(merge)).to.equal(null);
+  expect(getChangeCategory(parseCommitSubject("wip: try things"))).to.equal(null);
+  expect(getChangeCategory({ type: null, breaking: true })).to.equal("Changed");
+});
+
+Deno.test("renderChangelogSection() renders the entries under their category", () => {
+  const markdown = renderChangelogSection(section);
+
+  expect(markdown).to.equal(
+    "## [v1.1.0] - 2024-01-01\n\n### Added\n\n- **git:** Add tags (a1b2c3d)\n",
+  );
+});
+
+Deno.test("prependChangelogSection() adds the section before the latest release", () => {
+  const content = "# Changelog\n\n## [Unreleased]\n\n## [v1.0.0] - 2023-12-01\n";
+  const result = prependChangelogSection(content, renderChangelogSection(section));
+
+  expect(result.indexOf("## [Unreleased]")).to.be.lessThan(result.indexOf("## [v1.1.0]"));
+  expect(result.indexOf("## [v1.1.0]")).to.be.lessThan(result.indexOf("## [v1.0.0]"));
+});
+
+Deno.test("prependChangelogSection() adds a header to an empty changelog", () => {
+  const result = prependChangelogSection("", renderChangelogSection(section));
+
+  expect(result.startsWith("# Changelog")).to.equal(true);
+});
@@ -0,0 +1,83 @@
+import { parseCommit, parseCommitMessage, parseCommitSubject } from "@tools/commits.ts";
+import { expect } from "../dependencies.ts";
+
+Deno.test("parseCommitSubject() parses a conventional commit header", () => {
+  const header = parseCommitSubject("feat(git)!: add tag support");
+
+  expect(header.type).to.equal("feat");
+  expect(header.scope).to.equal("git");
+  expect(header.breaking).to.equal(true);
+  expect(header.description).to.equal("add tag support");
+});
+
+Deno.test("parseCommitSubject() parses a gitmoji header with and without scope", () => {
+  const withoutScope = parseCommitSubject(":sparkles: Add changelog command");
+  const withScope = parseCommitSubject(":bug: (logger): Fix padding");
+
+  expect(withoutScope.type).to.equal(":sparkles:");
+  expect(withoutScope.scope).to.equal(null);
+  expect(withoutScope.description).to.equal("Add changelog command");
+  expect(withScope.type).to.equal(":bug:");
+  expect(withScope.scope).to.equal("logger");
+  expect(withScope.description).to.equal("Fix padding");
+});
+
+Deno.test("parseCommitSubject() converts emoji characters into codes", () => {
+  const header = parseCommitSubject("✨ Add changelog command");
+
+  expect(header.type).to.equal(":sparkles:");
+  expect(header.subject).to.equal(":sparkles: Add changelog command");
+});
+
+Deno.test("parseCommitSubject() keeps the whole subject when there is no type", () => {
+  const header = parseCommitSubject("Merge branch 'main' into dev");
+
+  expect(header.type).to.equal(null);
+  expect(header.description).to.equal("Merge branch 'main' into dev");
+});
+
+Deno.test("parseCommitMessage() splits the body from its trailers", () => {
+  const parsed = parseCommitMessage(
+    [
+      "fix(process): handle empty output",
+      "",
+      "The command used to throw.",
+      "",
+      "Second paragraph.",
+      "",
+      "BREAKING CHANGE: executeCommand returns an empty",
+      "  string instead of throwing",
+      "Refs: #12, #13",
+      "Co-authored-by: Jane Doe <jane@example.com>",
+    ].join("\n"),
+  );
+
+  expect(parsed.body).to.equal("The command used to throw.\n\nSecond paragraph.");
+  expect(parsed.trailers).to.have.length(3);
+  expect(parsed.breaking).to.equal(true);
+  expect(parsed.breakingChange).to.equal(
+    "executeCommand returns an empty\nstring instead of throwing",
+  );
+  expect(parsed.references).to.deep.equal(["#12", "#13"]);
+  expect(parsed.coAuthors).to.deep.equal([
+    { name: "Jane Doe", email: "jane@example.com" },
+  ]);
+});
+
+Deno.test(
+  "parseCommitMessage() keeps the last paragraph when it isn't a trailer block",
+  () => {
+    const parsed = parseCommitMessage("docs: update readme\n\nRefs: #1\nnot a trailer");
+
+    expect(parsed.trailers).to.have.length(0);
+    expect(parsed.body).to.equal("Refs: #1\nnot a trailer");
+  },
+);
+
+Deno.test("parseCommit() merges the parsed message into the commit", () => {
+  const commit = parseCommit({ hash: "abc", subject: "feat: add bump", body: "" });
+
+  expect(commit.hash).to.equal("abc");
+  expect(commit.type).to.equal("feat");
+  expect(commit.breaking).to.equal(false);
+});
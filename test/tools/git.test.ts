@@ -0,0 +1,278 @@
+import { Git } from "@tools/git.ts";
+import { expect } from "../dependencies.ts";
+
+function createRepository() {
+  const cwd = Deno.makeTempDirSync({ prefix: "toolkit-git-" });
+  const git = new Git({ cwd });
+
+  git.init({ initialBranch: "main", quiet: true });
+  git.config("user.name", "Jane Doe");
+  git.config("user.email", "jane@example.com");
+  git.config("commit.gpgsign", "false");
+
+  return { cwd, git, remove: () => Deno.removeSync(cwd, { recursive: true }) };
+}
+
+function commitFile(
+  repo: ReturnType<typeof createRepository>,
+  path: string,
+  message: string,
+) {
+  Deno.writeTextFileSync(`${repo.cwd}/${path}`, crypto.randomUUID());
+  repo.git.add(path);
+  repo.git.commit(message);
+}
+
+Deno.test("git.tags() lists lightweight and annotated tags", () => {
+  const repo = createRepository();
+
+  try {
+    commitFile(repo, "a.txt", "feat: first");
+    repo.git.tag("v0.1.0");
+    repo.git.tag("v0.2.0", { annotate: true, message: "Release v0.2.0" });
+
+    const tags = repo.git.tags();
+    const head = repo.git.revParse("HEAD");
+
+    expect(tags.map((t) => [t.name, t.type])).to.deep.equal([
+      ["v0.1.0", "commit"],
+      ["v0.2.0", "tag"],
+    ]);
+    expect(tags.every((t) => t.hash === head)).to.equal(true);
+    expect(tags[1].subject).to.equal("Release v0.2.0");
+  } finally {
+    repo.remove();
+  }
+});
+
+Deno.test("git.status() parses staged, renamed and untracked files", () => {
+  const repo = createRepository();
+
+  try {
+    commitFile(repo, "a.txt", "feat: first");
+    repo.git({ args: ["mv", "a.txt", "b.txt"] });
+    Deno.writeTextFileSync(`${repo.cwd}/with space.txt`, "");
+
+    const status = repo.git.status();
+
+    expect(status.clean).to.equal(false);
+    expect(status.branch.head).to.equal("main");
+    expect(status.entries).to.deep.equal([
+      {
+        kind: "renamed",
+        index: "R",
+        worktree: ".",
+        path: "b.txt",
+        originalPath: "a.txt",
+      },
+      { kind: "untracked", index: "?", worktree: "?", path: "with space.txt" },
+    ]);
+  } finally {
+    repo.remove();
+  }
+});
+
+Deno.test("git.diff() counts the changed lines per file", () => {
+  const repo = createRepository();
+
+  try {
+    commitFile(repo, "a.txt", "feat: first");
+    Deno.writeTextFileSync(`${repo.cwd}/a.txt`, "one\ntwo\n");
+
+    expect(repo.git.diff()).to.deep.equal([{ added: 2, deleted: 1, path: "a.txt" }]);
+  } finally {
+    repo.remove();
+  }
+});
+
+Deno.test("git.describe() parses the distance from the latest tag", () => {
+  const repo = createRepository();
+
+  try {
+    commitFile(repo, "a.txt", "feat: first");
+    repo.git.tag("v1.0.0");
+    commitFile(repo, "b.txt", "fix: second");
+
+    const description = repo.git.describe(undefined, { tags: true });
+
+    expect(description.tag).to.equal("v1.0.0");
+    expect(description.distance).to.equal(1);
+  } finally {
+    repo.remove();
+  }
+});
+
+Deno.test(
+  "git.log() parses subjects with quotes, backslashes and format fragments",
+  () => {
+    const repo = createRepository();
+
+    try {
+      const subjects = [
+        'fix: handle "quoted" values',
+        "fix: escape C:\\Users\\path and \\n sequences",
+        'feat: keep {"hash":"1234","id":"5678"} as text',
+        "chore: use %H, %x00 and \u001e literally",
+      ];
+
+      subjects.forEach((subject, i) => commitFile(repo, `${i}.txt`, subject));
+
+      const commits = repo.git.log();
+
+      expect(commits.map((c) => c.subject)).to.deep.equal(subjects.toReversed());
+    } finally {
+      repo.remove();
+    }
+  },
+);
+
+Deno.test("git.log() includes the body, parents, committer and trailers", () => {
+  const repo = createRepository();
+
+  try {
+    const message = [
+      "feat(git): parse bodies",
+      "",
+      'Bodies can contain {"hash" and "quotes".',
+      "",
+      "Refs: #6",
+      "Co-authored-by: John Doe <john@example.com>",
+    ].join("\n");
+
+    commitFile(repo, "a.txt", "feat: first");
+    commitFile(repo, "b.txt", message);
+
+    const [latest, first] = repo.git.log();
+
+    expect(latest.body).to.equal(message.substring(message.indexOf("\n") + 1).trim());
+    expect(latest.parents).to.deep.equal([first.hash]);
+    expect(first.parents).to.deep.equal([]);
+    expect(latest.committer.name).to.equal("Jane Doe");
+    expect(latest.committer.email).to.equal("jane@example.com");
+    expect(latest.committer.timestamp).to.be.instanceOf(Date);
+    expect(latest.signature.status).to.equal("N");
+    expect(latest.trailers).to.deep.equal([
+      { key: "Refs", value: "#6" },
+      { key: "Co-authored-by", value: "John Doe <john@example.com>" },
+    ]);
+  } finally {
+    repo.remove();
+  }
+});
+
+Deno.test("git.async runs the same methods without blocking", async () => {
+  const repo = createRepository();
+
+  try {
+    commitFile(repo, "a.txt", "feat: first");
+
+    const promise = repo.git.async.log();
+
+    expect(promise).to.be.instanceOf(Promise);
+
+    const [commits, status] = await Promise.all([promise, repo.git.async.status()]);
+
+    expect(commits).to.deep.equal(repo.git.log());
+    expect(status.clean).to.equal(true);
+  } finally {
+    repo.remove();
+  }
+});
+
+Deno.test("git.async rejects when Git fails", async () => {
+  const repo = createRepository();
+
+  try {
+    const promise = repo.git.async.revParse("missing", { verify: true });
+
+    const error = await promise.catch((error) => error);
+
+    expect(error).to.be.instanceOf(Error);
+    expect(await repo.git.async.config("user.name")).to.equal("Jane Doe");
+  } finally {
+    repo.remove();
+  }
+});
+
+Deno.test("git.logStream() yields the same commits as git.log()", async () => {
+  const repo = createRepository();
+
+  try {
+    ["feat: first", "fix: second", "chore: third"].forEach((subject, i) =>
+      commitFile(repo, `${i}.txt`, subject),
+    );
+
+    const commits = [];
+
+    for await (const commit of repo.git.logStream()) {
+      commits.push(commit);
+    }
+
+    expect(commits).to.deep.equal(repo.git.log());
+  } finally {
+    repo.remove();
+  }
+});
+
+Deno.test("git accepts the working directory as a file URL", () => {
+  const repo = createRepository();
+
+  try {
+    const url = new URL(`file://${repo.cwd}/`);
+    const git = new Git({ cwd: url });
+
+    commitFile(repo, "a.txt", "feat: first");
+
+    expect(git.cwd).to.equal(`${repo.cwd}/`);
+    expect(git.log().map((c) => c.subject)).to.deep.equal(["feat: first"]);
+  } finally {
+    repo.remove();
+  }
+});
+
+Deno.test("git merges the environment of every call with the default one", () => {
+  const repo = createRepository();
+
+  try {
+    const git = new Git({
+      cwd: repo.cwd,
+      env: { GIT_AUTHOR_NAME: "John Doe", GIT_COMMITTER_NAME: "John Doe" },
+    });
+
+    Deno.writeTextFileSync(`${repo.cwd}/a.txt`, "");
+    git.add("a.txt");
+    git({ args: ["commit", "-m", "feat: first"], env: { GIT_AUTHOR_NAME: "Max Doe" } });
+
+    const [commit] = git.log();
+
+    expect(commit.author.name).to.equal("Max Doe");
+    expect(commit.committer.name).to.equal("John Doe");
+  } finally {
+    repo.remove();
+  }
+});
+
+Deno.test("git works when code generation from strings is disallowed", async () => {
+  const repo = createRepository();
+
+  try {
+    const script = `
+      import { Git } from "${import.meta.resolve("@tools/git.ts")}";
+
+      const git = new Git({ cwd: ${JSON.stringify(repo.cwd)} });
+
+      console.log(git({ args: ["rev-parse", "--is-inside-work-tree"] }));
+    `;
+    const command = new Deno.Command(Deno.execPath(), {
+      args: ["eval", "--v8-flags=--disallow-code-generation-from-strings", script],
+    });
+    const { code, stdout, stderr } = await command.output();
+    const decoder = new TextDecoder();
+
+    expect(decoder.decode(stderr)).to.equal("");
+    expect(code).to.equal(0);
+    expect(decoder.decode(stdout).trim()).to.equal("true");
+  } finally {
+    repo.remove();
+  }
+});
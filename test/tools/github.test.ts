@@ -0,0 +1,66 @@
+import { appendGithubOutputs, formatGithubOutputs } from "@tools/github.ts";
+import { expect } from "../dependencies.ts";
+
+/**
+ * Reads a `GITHUB_OUTPUT` file the way the runner does.
+ */
+function parseGithubOutputs(text: string) {
+  const outputs: Record<string, string> = {};
+  const lines = text.split("\n");
+
+  for (let i = 0; i < lines.length; i++) {
+    const [, name, delimiter] = lines[i].match(/^([^=]+?)<<(.+)$/) || [];
+
+    if (name) {
+      const end = lines.indexOf(delimiter, i + 1);
+
+      outputs[name] = lines.slice(i + 1, end).join("\n");
+      i = end;
+    } else if (lines[i]) {
+      const [key, ...value] = lines[i].split("=");
+
+      outputs[key] = value.join("=");
+    }
+  }
+
+  return outputs;
+}
+
+Deno.test("formatGithubOutputs() wraps every value in a heredoc", () => {
+  const formatted = formatGithubOutputs(
+    { version: "1.2.0", notes: "### Added\n\n- Release command" },
+    "EOF",
+  );
+
+  expect(formatted).to.equal(
+    "version<<EOF\n1.2.0\nEOF\nnotes<<EOF\n### Added\n\n- Release command\nEOF\n",
+  );
+});
+
+Deno.test("formatGithubOutputs() uses a new random delimiter every time", () => {
+  const first = formatGithubOutputs({ version: "1.2.0" });
+  const second = formatGithubOutputs({ version: "1.2.0" });
+
+  expect(first).to.match(/^version<<(ghadelimiter_[\w-]+)\n1\.2\.0\n\1\n$/);
+  expect(second).to.not.equal(first);
+});
+
+Deno.test("appendGithubOutputs() appends outputs that the runner reads back", () => {
+  const path = Deno.makeTempFileSync();
+  const notes = "### Fixed\n\nEOF\nversion=0.0.0";
+
+  try {
+    Deno.writeTextFileSync(path, "previous=true\n");
+    appendGithubOutputs(path, { version: "1.2.0", notes });
+    appendGithubOutputs(path, { tag: "v1.2.0" });
+
+    expect(parseGithubOutputs(Deno.readTextFileSync(path))).to.deep.equal({
+      previous: "true",
+      version: "1.2.0",
+      notes,
+      tag: "v1.2.0",
+    });
+  } finally {
+    Deno.removeSync(path);
+  }
+});
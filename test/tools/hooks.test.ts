@@ -0,0 +1,51 @@
+import { getHooksConfig, isManagedHook, renderHookScript } from "@tools/hooks.ts";
+import { expect } from "../dependencies.ts";
+
+Deno.test(
+  "getHooksConfig() uses the defaults when deno.json has no hooks section",
+  () => {
+    expect(getHooksConfig(`{ "importMap": "import-map.json" }`)).to.deep.equal({
+      directory: ".githooks",
+      runner: "toolkit",
+      commands: {},
+    });
+  },
+);
+
+Deno.test("getHooksConfig() reads the toolkit.hooks section", () => {
+  const content = JSON.stringify({
+    toolkit: {
+      hooks: {
+        directory: "hooks",
+        commands: { "commit-msg": "lint-commit --file", "pre-push": "bump" },
+      },
+    },
+  });
+
+  expect(getHooksConfig(content)).to.deep.equal({
+    directory: "hooks",
+    runner: "toolkit",
+    commands: { "commit-msg": "lint-commit --file", "pre-push": "bump" },
+  });
+});
+
+Deno.test("getHooksConfig() rejects unknown hooks", () => {
+  const content = JSON.stringify({
+    toolkit: { hooks: { commands: { "post-merge": "bump" } } },
+  });
+
+  expect(() => getHooksConfig(content)).to.throw();
+});
+
+Deno.test("renderHookScript() delegates to the toolkit with the hook arguments", () => {
+  const script = renderHookScript("toolkit", "lint-commit --file");
+
+  expect(script.split("\n")).to.deep.equal([
+    "#!/bin/sh",
+    "# Managed by toolkit hooks. Changes will be overwritten.",
+    'exec toolkit lint-commit --file "$@"',
+    "",
+  ]);
+  expect(isManagedHook(script)).to.equal(true);
+  expect(isManagedHook("#!/bin/sh\nnpx lint-staged\n")).to.equal(false);
+});
@@ -0,0 +1,76 @@
+import { getLintCommitConfig, lintCommitMessage } from "@tools/lint-commit.ts";
+import { expect } from "../dependencies.ts";
+
+const defaults = getLintCommitConfig("{}");
+
+function getRules(message: string, config = defaults) {
+  return lintCommitMessage(message, config).map((p) => [p.rule, p.severity]);
+}
+
+Deno.test("lintCommitMessage() accepts conventional and gitmoji commits", () => {
+  expect(getRules("feat(git): add async methods")).to.deep.equal([]);
+  expect(getRules(":sparkles: (git): add async methods")).to.deep.equal([]);
+  expect(getRules("✨ add async methods")).to.deep.equal([]);
+});
+
+Deno.test("lintCommitMessage() rejects unknown types and gitmoji codes", () => {
+  expect(getRules("feature: add async methods")).to.deep.equal([["type-enum", "error"]]);
+  expect(getRules(":not_an_emoji: add async methods")).to.deep.equal([
+    ["type-enum", "error"],
+  ]);
+  expect(getRules("add async methods")).to.deep.equal([["type-enum", "error"]]);
+});
+
+Deno.test("lintCommitMessage() checks the subject style", () => {
+  expect(getRules(`fix: ${"a".repeat(80)}`)).to.deep.equal([
+    ["subject-max-length", "error"],
+  ]);
+  expect(getRules("fix: handled empty tags.")).to.deep.equal([
+    ["subject-imperative", "warning"],
+    ["subject-no-trailing-period", "error"],
+  ]);
+  expect(getRules("fix: adds a fallback")).to.deep.equal([
+    ["subject-imperative", "warning"],
+  ]);
+  expect(getRules("fix: process the tags")).to.deep.equal([]);
+});
+
+Deno.test(
+  "lintCommitMessage() accepts imperative verbs that look like other forms",
+  () => {
+    for (const verb of ["bring", "embed", "feed", "need", "sing", "process"]) {
+      expect(getRules(`fix: ${verb} the tags`)).to.deep.equal([]);
+    }
+
+    for (const word of ["dropped", "copies", "writing", "wrote"]) {
+      expect(getRules(`fix: ${word} the tags`)).to.deep.equal([
+        ["subject-imperative", "warning"],
+      ]);
+    }
+  },
+);
+
+Deno.test("lintCommitMessage() follows the configured types and severities", () => {
+  const config = getLintCommitConfig(
+    JSON.stringify({
+      toolkit: {
+        lintCommit: {
+          types: ["feat"],
+          rules: { "scope-required": "error", "subject-imperative": "off" },
+        },
+      },
+    }),
+  );
+
+  expect(getRules("feat: added tags", config)).to.deep.equal([
+    ["scope-required", "error"],
+  ]);
+  expect(getRules("fix(git): add tags", config)).to.deep.equal([["type-enum", "error"]]);
+});
+
+Deno.test("lintCommitMessage() ignores comment lines", () => {
+  const message =
+    "# Please enter the commit message\nfix: add fallback\n# On branch main\n";
+
+  expect(getRules(message)).to.deep.equal([]);
+});
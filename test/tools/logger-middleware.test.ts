@@ -0,0 +1,126 @@
+import { Logger } from "@tools/logger.ts";
+import {
+  createHonoLoggingMiddleware,
+  createOakLoggingMiddleware,
+  withHttpLogging,
+} from "@tools/logger-middleware.ts";
+import { MemoryTransport } from "@tools/logger-transports.ts";
+import { expect } from "../dependencies.ts";
+
+const info = {} as Deno.ServeHandlerInfo;
+
+function createLogger() {
+  const memory = new MemoryTransport(10, { format: "NDJSON" });
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "DEBUG",
+    mode: "JSON",
+    transports: { INFORMATIONAL: memory, ERROR: memory },
+  });
+  const logs = () => memory.messages.map((m) => JSON.parse(m));
+
+  return { logger, logs };
+}
+
+Deno.test("withHttpLogging() logs the request inside a request scope", async () => {
+  const { logger, logs } = createLogger();
+  const handler = withHttpLogging(
+    () => {
+      logger.info("Handling");
+      return Response.json({ ok: true }, { status: 201 });
+    },
+    { logger },
+  );
+  const request = new Request("http://localhost/users?page=2", {
+    method: "POST",
+    headers: {
+      "x-request-id": "1234",
+      "traceparent": "00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01",
+      "referer": "http://localhost/",
+    },
+  });
+
+  const response = await handler(request, info);
+  const [handling, http] = logs();
+
+  expect(response.headers.get("x-request-id")).to.equal("1234");
+  expect(handling["http.request.id"]).to.equal("1234");
+  expect(handling["trace.id"]).to.equal("4bf92f3577b34da6a3ce929d0e0e4736");
+  expect(http["log.level"]).to.equal("HTTP");
+  expect(http["http.request.method"]).to.equal("POST");
+  expect(http["http.version"]).to.equal(undefined);
+  expect(http["http.request.url.original"]).to.equal("/users?page=2");
+  expect(http["http.request.referrer"]).to.equal("http://localhost/");
+  expect(http["http.response.status_code"]).to.equal(201);
+  expect(http["http.response.mime_type"]).to.equal("application/json");
+  expect(http["event.duration"]).to.be.a("number");
+});
+
+Deno.test("withHttpLogging() logs errors and responds with a 500", async () => {
+  const { logger, logs } = createLogger();
+  const handler = withHttpLogging(
+    () => {
+      throw new Error("Oops!");
+    },
+    { logger },
+  );
+
+  const response = await handler(new Request("http://localhost/"), info);
+  const [error, http] = logs();
+
+  expect(response.status).to.equal(500);
+  expect(error["error.message"]).to.equal("Oops!");
+  expect(error["http.request.id"]).to.equal(http["http.request.id"]);
+  expect(http["http.response.status_code"]).to.equal(500);
+});
+
+Deno.test("createOakLoggingMiddleware() logs and rethrows errors", async () => {
+  const { logger, logs } = createLogger();
+  const middleware = createOakLoggingMiddleware({ logger });
+  const context = {
+    request: {
+      method: "GET",
+      url: new URL("http://localhost/a"),
+      headers: new Headers(),
+    },
+    response: { status: 404, headers: new Headers() },
+  };
+  let thrown: unknown;
+
+  try {
+    await middleware(context, () => Promise.reject(new Error("Oops!")));
+  } catch (error) {
+    thrown = error;
+  }
+
+  const [error, http] = logs();
+
+  expect(thrown).to.be.instanceOf(Error);
+  expect(error["error.message"]).to.equal("Oops!");
+  expect(http["http.response.status_code"]).to.equal(500);
+  expect(context.response.headers.get("x-request-id")).to.equal(http["http.request.id"]);
+});
+
+Deno.test(
+  "createHonoLoggingMiddleware() logs the response set by the handler",
+  async () => {
+    const { logger, logs } = createLogger();
+    const middleware = createHonoLoggingMiddleware({ logger, requestIdHeader: "x-id" });
+    const context = {
+      req: { raw: new Request("http://localhost/b", { headers: { "x-id": "abcd" } }) },
+      res: new Response(null),
+    };
+
+    await middleware(context, () => {
+      context.res = new Response("Created", { status: 201 });
+      return Promise.resolve();
+    });
+
+    const [http] = logs();
+
+    expect(http["http.request.id"]).to.equal("abcd");
+    expect(http["http.response.status_code"]).to.equal(201);
+    expect(context.res.headers.get("x-id")).to.equal("abcd");
+  },
+);
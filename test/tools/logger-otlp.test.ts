@@ -0,0 +1,181 @@
+import { Logger, runInLogScope } from "@tools/logger.ts";
+import { OtlpTransport, toOtlpLogRecord } from "@tools/logger-otlp.ts";
+import { expect } from "../dependencies.ts";
+
+type Payload = {
+  resourceLogs: {
+    resource: { attributes: OtlpTransport.KeyValue[] };
+    scopeLogs: { scope: { name: string }; logRecords: OtlpTransport.LogRecord[] }[];
+  }[];
+};
+
+function startCollector(statuses: number[] = []) {
+  const payloads: Payload[] = [];
+  const server = Deno.serve(
+    { hostname: "127.0.0.1", port: 0, onListen() {} },
+    async (request) => {
+      payloads.push(await request.json());
+
+      return new Response(null, { status: statuses.shift() || 200 });
+    },
+  );
+  const endpoint = `http://127.0.0.1:${server.addr.port}/v1/logs`;
+
+  return { payloads, endpoint, shutdown: () => server.shutdown() };
+}
+
+function createLogger(otlp: OtlpTransport) {
+  return new Logger({
+    application: "api",
+    environment: "production",
+    version: "1.2.0",
+    severity: "DEBUG",
+    mode: "JSON",
+    transports: { DEBUG: otlp, INFO: otlp, ERROR: otlp },
+  });
+}
+
+function getRecords(payload: Payload) {
+  return payload.resourceLogs.flatMap((r) => r.scopeLogs.flatMap((s) => s.logRecords));
+}
+
+function getAttribute(attributes: OtlpTransport.KeyValue[], key: string) {
+  return attributes.find((attribute) => attribute.key === key)?.value;
+}
+
+Deno.test("toOtlpLogRecord() maps the fields to OpenTelemetry attributes", () => {
+  const logger = new Logger({
+    application: "api",
+    environment: "production",
+    severity: "SILENT",
+    mode: "JSON",
+  });
+  const traceId = "4bf92f3577b34da6a3ce929d0e0e4736";
+  const span = { id: "00f067aa0ba902b7", name: "deploy" };
+  const logObject = runInLogScope({ traceId, span }, () =>
+    logger.error("Failed", Object.assign(new Error("Oops!"), { code: "E_DEPLOY" })),
+  );
+
+  const record = toOtlpLogRecord(logObject);
+
+  expect(record.severityNumber).to.equal(17);
+  expect(record.severityText).to.equal("ERROR");
+  expect(record.body).to.deep.equal({ stringValue: "Failed" });
+  expect(record.traceId).to.equal(traceId);
+  expect(record.spanId).to.equal(span.id);
+  expect(record.timeUnixNano).to.equal(`${Date.parse(logObject["@timestamp"])}000000`);
+  expect(getAttribute(record.attributes, "exception.message")).to.deep.equal({
+    stringValue: "Oops!",
+  });
+  expect(getAttribute(record.attributes, "exception.stacktrace")).to.have.property(
+    "stringValue",
+  );
+  expect(getAttribute(record.attributes, "error.code")).to.deep.equal({
+    stringValue: "E_DEPLOY",
+  });
+  expect(getAttribute(record.attributes, "service.name")).to.equal(undefined);
+});
+
+Deno.test("otlpTransport sends batches with the resource attributes", async () => {
+  const collector = startCollector();
+  const otlp = new OtlpTransport({ endpoint: collector.endpoint, batchSize: 2 });
+  const logger = createLogger(otlp);
+
+  logger.info("First", { files: 2 });
+  logger.debug("Second");
+  await otlp.flush();
+
+  expect(collector.payloads).to.have.length(1);
+
+  logger.info("Third");
+  await logger.close();
+  await collector.shutdown();
+
+  const [first, second] = collector.payloads;
+  const { resource, scopeLogs } = first.resourceLogs[0];
+
+  expect(getAttribute(resource.attributes, "service.name")).to.deep.equal({
+    stringValue: "api",
+  });
+  expect(getAttribute(resource.attributes, "deployment.environment")).to.deep.equal({
+    stringValue: "production",
+  });
+  expect(getAttribute(resource.attributes, "service.version")).to.deep.equal({
+    stringValue: "1.2.0",
+  });
+  expect(scopeLogs[0].scope.name).to.equal("my-dev-toolkit");
+  expect(getRecords(first).map((r) => r.body)).to.deep.equal([
+    { stringValue: "First" },
+    { stringValue: "Second" },
+  ]);
+  expect(getAttribute(getRecords(first)[0].attributes, "data")).to.deep.equal({
+    arrayValue: {
+      values: [{ kvlistValue: { values: [{ key: "files", value: { intValue: "2" } }] } }],
+    },
+  });
+  expect(getRecords(second).map((r) => r.body)).to.deep.equal([{ stringValue: "Third" }]);
+});
+
+Deno.test("otlpTransport sends the batch when the flush interval ends", async () => {
+  const collector = startCollector();
+  const otlp = new OtlpTransport({ endpoint: collector.endpoint, flushInterval: 10 });
+
+  createLogger(otlp).info("Buffered");
+
+  expect(collector.payloads).to.have.length(0);
+
+  while (collector.payloads.length === 0) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+
+  await otlp.close();
+  await collector.shutdown();
+
+  expect(getRecords(collector.payloads[0])).to.have.length(1);
+});
+
+Deno.test("otlpTransport retries temporary errors with backoff", async () => {
+  const collector = startCollector([503, 429]);
+  const errors: unknown[] = [];
+  const otlp = new OtlpTransport({
+    endpoint: collector.endpoint,
+    retryDelay: 1,
+    onError: (error) => errors.push(error),
+  });
+
+  createLogger(otlp).info("Retried");
+  await otlp.close();
+  await collector.shutdown();
+
+  expect(collector.payloads).to.have.length(3);
+  expect(errors).to.have.length(0);
+});
+
+Deno.test("otlpTransport drops the batch on permanent errors", async () => {
+  const collector = startCollector([400, 503, 503]);
+  const errors: unknown[] = [];
+  const options = { maxRetries: 1, retryDelay: 1, onError: errors.push.bind(errors) };
+  const otlp = new OtlpTransport({ ...options, endpoint: collector.endpoint });
+  const unreachable = new OtlpTransport({
+    ...options,
+    endpoint: "http://127.0.0.1:1/v1/logs",
+  });
+
+  createLogger(otlp).info("Rejected");
+  await otlp.flush();
+  createLogger(otlp).info("Unavailable");
+  await otlp.close();
+  createLogger(unreachable).info("Lost");
+  await unreachable.close();
+  await collector.shutdown();
+
+  expect(collector.payloads).to.have.length(3);
+  expect(errors).to.have.length(3);
+  expect((errors[0] as Error).message).to.equal(
+    "The collector responded with 400 Bad Request.",
+  );
+  expect((errors[1] as Error).message).to.equal(
+    "The collector responded with 503 Service Unavailable.",
+  );
+  expect(errors[2]).to.be.instanceOf(TypeError);
+});
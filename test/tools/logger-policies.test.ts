@@ -0,0 +1,118 @@
+import { Logger } from "@tools/logger.ts";
+import { Deduplicator, TokenBucket } from "@tools/logger-policies.ts";
+import { MemoryTransport } from "@tools/logger-transports.ts";
+import { expect } from "../dependencies.ts";
+
+function createLogger(settings: Record<string, unknown>) {
+  const memory = new MemoryTransport(100, { format: "NDJSON" });
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "DEBUG",
+    mode: "JSON",
+    transports: { DEBUG: memory, INFORMATIONAL: memory },
+    ...settings,
+  });
+
+  return { logger, messages: () => memory.entries.map((e) => e.logObject.message) };
+}
+
+Deno.test("tokenBucket refills the tokens over time", () => {
+  const bucket = new TokenBucket(2, 1000);
+
+  expect([0, 0, 0].map((now) => bucket.take("a", now))).to.deep.equal([
+    true,
+    true,
+    false,
+  ]);
+  expect(bucket.take("a", 499)).to.equal(false);
+  expect(bucket.take("a", 500)).to.equal(true);
+  expect(bucket.take("b", 500)).to.equal(true);
+});
+
+Deno.test("deduplicator reports repetitions when the window ends", () => {
+  const deduplicator = new Deduplicator<string>(100);
+
+  expect(deduplicator.track("a", "x", 0)).to.deep.equal({
+    duplicate: false,
+    repeated: undefined,
+  });
+  expect(deduplicator.track("a", "x", 50).duplicate).to.equal(true);
+  expect(deduplicator.track("a", "x", 200)).to.deep.equal({
+    duplicate: false,
+    repeated: { payload: "x", count: 1 },
+  });
+});
+
+Deno.test("logger samples the logs of a level", () => {
+  const { logger, messages } = createLogger({ sampling: { DEBUG: 0, INFO: 1 } });
+
+  logger.debug("dropped");
+  logger.info("kept");
+
+  expect(messages()).to.deep.equal(["kept"]);
+});
+
+Deno.test("logger rate limits the logs with the same message", () => {
+  const { logger, messages } = createLogger({
+    rateLimit: { limit: 2, interval: 60_000 },
+  });
+
+  for (let i = 0; i < 5; i++) {
+    logger.debug("polling", i);
+  }
+
+  logger.debug("done");
+
+  expect(messages()).to.deep.equal(["polling", "polling", "done"]);
+});
+
+Deno.test("logger collapses repeated messages", async () => {
+  const { logger, messages } = createLogger({ deduplication: { window: 60_000 } });
+
+  for (let i = 0; i < 4; i++) {
+    logger.debug("retrying");
+  }
+
+  logger.info("connected");
+  logger.info("connected");
+  await logger.flush();
+
+  expect(messages()).to.deep.equal([
+    "retrying",
+    "The previous message was repeated 3 more time(s).",
+    "connected",
+    "The previous message was repeated 1 more time(s).",
+  ]);
+});
+
+Deno.test("logger formats the repetitions before the log that ends them", async () => {
+  const memory = new MemoryTransport(100);
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "DEBUG",
+    mode: "PRETTY",
+    colors: false,
+    deduplication: { window: 60_000 },
+    transports: { DEBUG: memory, INFORMATIONAL: memory },
+  });
+
+  // Logged from a callback, so its origin differs from the one of the next log.
+  await new Promise((resolve) =>
+    setTimeout(() => resolve([logger.debug("retrying"), logger.debug("retrying")]), 5),
+  );
+  logger.info("connected");
+
+  const [retrying, repetition, connected] = memory.entries;
+  const timestamps = memory.entries.map((entry) => entry.logObject["@timestamp"]);
+
+  expect(repetition.message).to.match(
+    / The previous message was repeated 1 more time\(s\)\. $/,
+  );
+  expect(repetition.logObject["log.origin.file.path"]).to.equal(
+    retrying.logObject["log.origin.file.path"],
+  );
+  expect(connected.logObject.message).to.equal("connected");
+  expect(timestamps).to.deep.equal([...timestamps].sort());
+});
@@ -0,0 +1,131 @@
+import { stripAnsi } from "@tools/ansi.ts";
+import type { ExpandedCallSite } from "@tools/callsites.ts";
+import { Logger } from "@tools/logger.ts";
+import {
+  createCodeFrame,
+  describeError,
+  filterStack,
+  StackOptionsSchema,
+  stringifyErrorNode,
+} from "@tools/logger-stack.ts";
+import { MemoryTransport } from "@tools/logger-transports.ts";
+import { expect } from "../dependencies.ts";
+
+const options = StackOptionsSchema.parse({});
+
+function site(fileName: string | null, lineNumber = 1): ExpandedCallSite {
+  return { fileName, lineNumber, columnNumber: 1 } as ExpandedCallSite;
+}
+
+Deno.test("filterStack() hides internal frames and collapses remote ones", () => {
+  const sites = [
+    site("file:///app/main.ts"),
+    site("ext:deno_http/00_serve.js"),
+    site("https://deno.land/x/oak/application.ts"),
+    site("https://deno.land/x/oak/middleware.ts"),
+    site("https://esm.sh/zod/index.js"),
+    site(null),
+    site("file:///app/server.ts"),
+  ];
+
+  expect(filterStack(sites, options)).to.deep.equal([
+    site("file:///app/main.ts"),
+    { ...site("https://deno.land/x/oak/application.ts"), collapsed: 2 },
+    site("file:///app/server.ts"),
+  ]);
+  expect(
+    filterStack(sites, { ...options, hideInternal: false, collapseRemote: false }),
+  ).to.have.length(sites.length);
+});
+
+Deno.test("describeError() follows the causes and the aggregated errors", () => {
+  const error = new AggregateError(
+    [new TypeError("First"), new RangeError("Second")],
+    "Deploy failed for ddp_secret",
+    { cause: new Error("Connection reset", { cause: "ECONNRESET" }) },
+  );
+
+  const node = describeError(error, options, (text) => text.replace("ddp_secret", "***"));
+
+  expect(node.type).to.equal("AggregateError");
+  expect(node.message).to.equal("Deploy failed for ***");
+  expect(node.stack_trace[0].fileName).to.include("logger-stack.test.ts");
+  expect(node.cause?.message).to.equal("Connection reset");
+  expect(node.cause?.cause).to.deep.equal({
+    type: "Cause",
+    message: "ECONNRESET",
+    stack_trace: [],
+  });
+  expect(node.errors?.map((e) => `${e.type}: ${e.message}`)).to.deep.equal([
+    "TypeError: First",
+    "RangeError: Second",
+  ]);
+  expect(stringifyErrorNode(node)).to.include("Caused by: Error: Connection reset");
+  expect(stringifyErrorNode(node)).to.include("[1] RangeError: Second");
+  expect(describeError(error, { ...options, maxDepth: 1 }).cause?.cause).to.equal(
+    undefined,
+  );
+});
+
+Deno.test("createCodeFrame() shows the lines around a local call site", () => {
+  const frame = createCodeFrame(
+    { fileName: import.meta.url, lineNumber: 2, columnNumber: 10 },
+    1,
+  );
+
+  expect(frame?.split("\n")).to.deep.equal([
+    `  1 | import { stripAnsi } from "@tools/ansi.ts";`,
+    `> 2 | import type { ExpandedCallSite } from "@tools/callsites.ts";`,
+    `    |          ^`,
+    `  3 | import { Logger } from "@tools/logger.ts";`,
+  ]);
+  expect(createCodeFrame(site("https://deno.land/x/oak/mod.ts"))).to.equal(null);
+  expect(createCodeFrame(site("file:///missing.ts"))).to.equal(null);
+});
+
+Deno.test("logger renders the cause chain and the code frame in pretty mode", () => {
+  const memory = new MemoryTransport(10);
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "INFO",
+    mode: "PRETTY",
+    transports: { ERROR: memory },
+    inspectOptions: { colors: false },
+  });
+
+  logger.error("Failed", new Error("Outer", { cause: new TypeError("Inner") }));
+
+  const [{ message, logObject }] = memory.entries;
+  const text = stripAnsi(message);
+
+  expect(text).to.include("Caused by: TypeError: Inner");
+  expect(text).to.match(/> +\d+ \| {3}logger\.error\("Failed"/);
+  expect(logObject["error.cause"]?.type).to.equal("TypeError");
+  expect(logObject["error.stack_trace"]?.every((cs) => cs.fileName)).to.equal(true);
+});
+
+Deno.test("logger keeps the stack of an error that was already formatted", () => {
+  const memory = new MemoryTransport(10);
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "INFO",
+    mode: "JSON",
+    transports: { ERROR: memory },
+  });
+  const error = new Error("Oops!", { cause: new TypeError("Inner") });
+
+  expect(error.stack).to.be.a("string");
+  expect((error.cause as Error).stack).to.be.a("string");
+
+  const logObject = logger.error("Failed", error);
+  const [site] = logObject["error.stack_trace"] || [];
+
+  expect(site.fileName).to.include("logger-stack.test.ts");
+  expect(site.lineNumber).to.be.a("number");
+  expect(logObject["error.cause"]?.stack_trace[0].fileName).to.include(
+    "logger-stack.test.ts",
+  );
+  expect(logObject["log.origin.file.path"]).to.not.equal("");
+});
@@ -0,0 +1,83 @@
+import { withContext } from "@tools/logger.ts";
+import {
+  LogAssertionError,
+  LogCapture,
+  withGlobalLogger,
+} from "@tools/logger-testing.ts";
+import { expect } from "../dependencies.ts";
+
+Deno.test("logCapture.expectLogged() finds a log by level, message and labels", () => {
+  const capture = new LogCapture();
+
+  capture.logger.info("Started");
+  capture.logger.warn("The deploy is slow", withContext({ labels: { region: "eu" } }));
+
+  const logObject = capture.expectLogged({
+    level: "WARN",
+    message: /deploy/,
+    labels: { region: "eu" },
+  });
+
+  expect(logObject.message).to.equal("The deploy is slow");
+  expect(() =>
+    capture.expectLogged({ level: "WARN", labels: { region: "us" } }),
+  ).to.throw(LogAssertionError, "  - WARN The deploy is slow");
+});
+
+Deno.test("logCapture.expectNotLogged() fails when a log matches", () => {
+  const capture = new LogCapture({ severity: "INFO", module: "deploy" });
+
+  capture.logger.debug("Hidden");
+  capture.logger.error("Failed", new Error("Timeout"));
+
+  capture.expectNotLogged({ message: "Hidden" });
+  capture.expectLogged({ module: "deploy", error: /^Time/ });
+  expect(() => capture.expectNotLogged({ level: "ERROR" })).to.throw(
+    LogAssertionError,
+    "Expected no log matching",
+  );
+
+  capture.clear();
+
+  expect(capture.logObjects).to.have.length(0);
+});
+
+Deno.test(
+  "logCapture.snapshot() returns the pretty output without volatile parts",
+  () => {
+    const capture = new LogCapture({ levels: { AUDIT: { severity: 35 } } });
+
+    capture.logger.log("AUDIT", "Token rotated", { user: "jane" });
+    capture.logger.info("Done", withContext({ tags: ["deploy"] }));
+
+    expect(capture.snapshot()).to.equal(
+      [
+        `<timestamp> AUDIT  [test] <origin> Token rotated`,
+        `{ user: "jane" }`,
+        `<timestamp> INFO   [test] #deploy <origin> Done`,
+      ].join("\n"),
+    );
+  },
+);
+
+Deno.test(
+  "withGlobalLogger() swaps the global logger while the function runs",
+  async () => {
+    const previous = globalThis.logger;
+    const capture = new LogCapture();
+
+    await withGlobalLogger(capture.logger, async () => {
+      await Promise.resolve();
+      globalThis.logger.info("Inside");
+    });
+
+    expect(globalThis.logger).to.equal(previous);
+    expect(() =>
+      withGlobalLogger(capture.logger, () => {
+        throw new Error("Oops!");
+      }),
+    ).to.throw("Oops!");
+    expect(globalThis.logger).to.equal(previous);
+    capture.expectLogged({ message: "Inside" });
+  },
+);
@@ -0,0 +1,107 @@
+import { Logger } from "@tools/logger.ts";
+import {
+  FileTransport,
+  MemoryTransport,
+  RotatingFileTransport,
+} from "@tools/logger-transports.ts";
+import { expect } from "../dependencies.ts";
+
+function createLogger(transports: Record<string, unknown>) {
+  return new Logger({
+    application: "test",
+    environment: "test",
+    severity: "DEBUG",
+    mode: "JSON",
+    transports,
+  });
+}
+
+Deno.test("memoryTransport keeps only the latest entries", () => {
+  const memory = new MemoryTransport(2);
+  const logger = createLogger({ INFORMATIONAL: memory });
+
+  logger.info("first");
+  logger.info("second");
+  logger.info("third");
+
+  expect(memory.entries.map((e) => e.logObject.message)).to.deep.equal([
+    "second",
+    "third",
+  ]);
+});
+
+Deno.test("logger writes to every transport of a severity", async () => {
+  const path = Deno.makeTempFileSync({ suffix: ".log" });
+  const file = new FileTransport(path);
+  const memory = new MemoryTransport();
+  const logger = createLogger({ WARNING: [file, memory], ERROR: memory });
+
+  try {
+    logger.warn("careful");
+    logger.error("broken");
+    await logger.close();
+
+    const content = Deno.readTextFileSync(path);
+
+    expect(memory.messages).to.have.length(2);
+    expect(JSON.parse(content).message).to.equal("careful");
+  } finally {
+    Deno.removeSync(path);
+  }
+});
+
+Deno.test("fileTransport appends to an existing file", () => {
+  const path = Deno.makeTempFileSync();
+  const transport = new FileTransport(path);
+
+  try {
+    Deno.writeTextFileSync(path, "existing\n");
+    transport.write("new");
+    transport.close();
+
+    expect(Deno.readTextFileSync(path)).to.equal("existing\nnew\n");
+  } finally {
+    Deno.removeSync(path);
+  }
+});
+
+Deno.test("rotatingFileTransport rotates by size and keeps maxFiles", () => {
+  const dir = Deno.makeTempDirSync();
+  const path = `${dir}/app.log`;
+  const transport = new RotatingFileTransport(path, { maxSize: 8, maxFiles: 2 });
+
+  try {
+    ["one", "two", "three", "four", "five"].forEach((line) => transport.write(line));
+    transport.close();
+
+    const files = Array.from(Deno.readDirSync(dir), (e) => e.name).sort();
+
+    expect(files).to.deep.equal(["app.log", "app.log.1", "app.log.2"]);
+    expect(Deno.readTextFileSync(path)).to.equal("five\n");
+    expect(Deno.readTextFileSync(`${path}.1`)).to.equal("four\n");
+    expect(Deno.readTextFileSync(`${path}.2`)).to.equal("three\n");
+  } finally {
+    Deno.removeSync(dir, { recursive: true });
+  }
+});
+
+Deno.test("rotatingFileTransport rotates when a new day starts", () => {
+  const dir = Deno.makeTempDirSync();
+  const path = `${dir}/app.log`;
+  const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+  try {
+    Deno.writeTextFileSync(path, "old\n");
+    Deno.utimeSync(path, yesterday, yesterday);
+
+    const transport = new RotatingFileTransport(path, { interval: "daily" });
+
+    transport.write("new");
+    transport.close();
+
+    expect(Deno.readTextFileSync(`${path}.1`)).to.equal("old\n");
+    expect(Deno.readTextFileSync(path)).to.equal("new\n");
+  } finally {
+    Deno.removeSync(dir, { recursive: true });
+  }
+});
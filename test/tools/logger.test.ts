@@ -1,4 +1,12 @@
-import { LogObject } from "@tools/logger.ts";
+import {
+  Logger,
+  LoggerConfig,
+  LogObject,
+  runInLogScope,
+  toSerializable,
+  withContext,
+} from "@tools/logger.ts";
+import { MemoryTransport } from "@tools/logger-transports.ts";
 import { expect } from "../dependencies.ts";
 
 Deno.test(
@@ -46,3 +54,428 @@ Deno.test("logObject.setErrorFields() sets error.type when receiving an error",
 
   expect(logObject["error.type"]).to.equal("TypeError");
 });
+
+Deno.test("logger formats the same log for each transport", () => {
+  const pretty = new MemoryTransport(10, { format: "PRETTY" });
+  const ndjson = new MemoryTransport(10, { format: "NDJSON" });
+  const logfmt = new MemoryTransport(10, { format: "LOGFMT" });
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "DEBUG",
+    mode: "JSON",
+    transports: { INFORMATIONAL: [pretty, ndjson, logfmt] },
+  });
+
+  logger.info('Deploying "v1.2.0"');
+
+  expect(pretty.messages[0]).to.include('Deploying "v1.2.0"');
+  expect(JSON.parse(ndjson.messages[0]).message).to.equal('Deploying "v1.2.0"');
+  expect(ndjson.messages[0]).not.to.include("\n");
+  expect(logfmt.messages[0]).to.include('message="Deploying \\"v1.2.0\\""');
+  expect(logfmt.messages[0]).to.include("log.level=INFO");
+});
+
+Deno.test("logger.getSubLogger() keeps the transports and their formats", () => {
+  const memory = new MemoryTransport(10, { format: "NDJSON" });
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "DEBUG",
+    mode: "PRETTY",
+    transports: { WARNING: memory },
+  });
+
+  logger.getSubLogger({ module: "git" }).warn("careful");
+
+  expect(JSON.parse(memory.messages[0])["log.logger"]).to.equal("test:git");
+});
+
+Deno.test(
+  "toSerializable() handles errors, bigints, maps and circular references",
+  () => {
+    const error = new Error("Oops!", { cause: new TypeError("Bad type") });
+    const value: Record<string, unknown> = {
+      id: 10n,
+      users: new Map([[1, { name: "Jane" }]]),
+      roles: new Set(["admin"]),
+      error,
+    };
+
+    value.self = value;
+
+    const serialized = JSON.parse(JSON.stringify(toSerializable(value)));
+
+    expect(serialized.id).to.equal("10");
+    expect(serialized.users).to.deep.equal({ "1": { name: "Jane" } });
+    expect(serialized.roles).to.deep.equal(["admin"]);
+    expect(serialized.self).to.equal("[Circular]");
+    expect(serialized.error.message).to.equal("Oops!");
+    expect(serialized.error.cause.name).to.equal("TypeError");
+  },
+);
+
+Deno.test("logger writes nested ECS objects in a single line", () => {
+  const memory = new MemoryTransport(10, { format: "NDJSON" });
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "DEBUG",
+    mode: "JSON",
+    jsonStyle: "NESTED",
+    transports: { ERROR: memory },
+  });
+  const data = { total: 2n, previous: {} as Record<string, unknown> };
+
+  data.previous.next = data;
+  logger.error("Failed", new Error("Oops!"), data);
+
+  const log = JSON.parse(memory.messages[0]);
+
+  expect(memory.messages[0]).not.to.include("\n");
+  expect(log["@timestamp"]).to.match(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{3}Z$/);
+  expect(log.ecs.version).to.equal("8.11.0");
+  expect(log.log.level).to.equal("ERROR");
+  expect(log.log.origin.file).to.have.property("line");
+  expect(log.error.message).to.equal("Oops!");
+  expect(log.error.stack_trace).to.be.a("string");
+  expect(log.data[1]).to.deep.equal({ total: "2", previous: { next: "[Circular]" } });
+  expect(log).not.to.have.property("log.level");
+});
+
+Deno.test("logger.child() binds labels and tags to every log", () => {
+  const memory = new MemoryTransport(10, { format: "NDJSON" });
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "DEBUG",
+    mode: "JSON",
+    tags: ["toolkit"],
+    transports: { INFORMATIONAL: memory },
+  });
+  const child = logger.child({ labels: { requestId: "1234" }, tags: ["deploy"] });
+
+  child.info("Deploying", withContext({ labels: { region: "eu" }, tags: ["deploy"] }), 1);
+  logger.info("Done");
+
+  const [first, second] = memory.messages.map((m) => JSON.parse(m));
+
+  expect(first.labels).to.deep.equal({ requestId: "1234", region: "eu" });
+  expect(first.tags).to.deep.equal(["toolkit", "deploy"]);
+  expect(first.data).to.deep.equal([1]);
+  expect(second.labels).to.equal(undefined);
+  expect(second.tags).to.deep.equal(["toolkit"]);
+});
+
+Deno.test("logger renders the context in pretty mode", () => {
+  const memory = new MemoryTransport(10);
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "DEBUG",
+    mode: "PRETTY",
+    inspectOptions: { colors: false },
+    transports: { INFORMATIONAL: memory, ERROR: memory },
+  });
+
+  logger
+    .child({ tags: ["deploy"] })
+    .info("Deploying", withContext({ labels: { id: "1" } }));
+  logger.error("Failed", new Error("Oops!"), withContext({ tags: ["deploy"] }));
+
+  expect(memory.messages[0]).to.include("#deploy id=1");
+  expect(memory.messages[0]).not.to.include("{context}");
+  expect(memory.messages[1]).to.include("Oops!");
+  expect(memory.messages[1]).to.include("#deploy");
+});
+
+Deno.test("logger doesn't expand the placeholders written in the logged values", () => {
+  const memory = new MemoryTransport(10);
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "INFO",
+    mode: "PRETTY",
+    colors: false,
+    transports: { INFO: memory },
+  });
+
+  logger.info(
+    "Hello {log.level}",
+    withContext({ labels: { id: "{message}" } }),
+    "{data}",
+  );
+
+  expect(memory.messages[0]).to.include("id={message} ");
+  expect(memory.messages[0]).to.include("Hello {log.level}");
+  expect(memory.messages[0]).to.include('\n"{data}"');
+});
+
+Deno.test(
+  "runInLogScope() adds the request context to every log in the scope",
+  async () => {
+    const memory = new MemoryTransport(10, { format: "NDJSON" });
+    const logger = new Logger({
+      application: "test",
+      environment: "test",
+      severity: "DEBUG",
+      mode: "JSON",
+      transports: { INFORMATIONAL: memory },
+    });
+    const handle = async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      logger.info("Inside");
+    };
+
+    await runInLogScope({ requestId: "1234", traceId: "abcd", labels: { a: "1" } }, () =>
+      runInLogScope({ labels: { b: "2" } }, handle),
+    );
+    logger.info("Outside");
+
+    const [inside, outside] = memory.messages.map((m) => JSON.parse(m));
+
+    expect(inside["http.request.id"]).to.equal("1234");
+    expect(inside["trace.id"]).to.equal("abcd");
+    expect(inside.labels).to.deep.equal({ a: "1", b: "2" });
+    expect(outside["http.request.id"]).to.equal(undefined);
+    expect(outside["trace.id"]).to.equal(undefined);
+  },
+);
+
+Deno.test("logger.timeEnd() logs the duration of a timer", async () => {
+  const memory = new MemoryTransport(10);
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "DEBUG",
+    mode: "JSON",
+    transports: { INFORMATIONAL: memory, WARNING: memory },
+  });
+
+  logger.time("build");
+  await new Promise((resolve) => setTimeout(resolve, 5));
+
+  const log = logger.timeEnd("build", { files: 2 });
+
+  expect(log?.message).to.match(/^build: \d+\.\d{2}ms$/);
+  expect(log?.["event.duration"]).to.be.greaterThanOrEqual(4);
+  expect(log?.data).to.deep.equal([{ files: 2 }]);
+  expect(logger.timeEnd("build")).to.equal(undefined);
+  expect(memory.entries[1].logObject.message).to.equal("The timer build doesn't exist.");
+});
+
+Deno.test("logger.span() nests spans and logs their duration", async () => {
+  const memory = new MemoryTransport(10);
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "DEBUG",
+    mode: "JSON",
+    transports: { DEBUG: memory, INFORMATIONAL: memory },
+  });
+
+  const result = await logger.span("release", async () => {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+
+    return logger.span("changelog", () => 42);
+  });
+  const logs = memory.entries.map((entry) => entry.logObject);
+  const [start, nestedStart, nestedEnd, end] = logs;
+
+  expect(result).to.equal(42);
+  expect(logs.map((log) => log.message)).to.deep.equal([
+    "Started release.",
+    "Started changelog.",
+    `Finished changelog in ${nestedEnd["event.duration"]?.toFixed(2)}ms.`,
+    `Finished release in ${end["event.duration"]?.toFixed(2)}ms.`,
+  ]);
+  expect(start["span.id"]).to.equal(end["span.id"]);
+  expect(start["span.parent.id"]).to.equal(undefined);
+  expect(nestedStart["span.name"]).to.equal("changelog");
+  expect(nestedStart["span.parent.id"]).to.equal(start["span.id"]);
+  expect(end["event.duration"]).to.be.greaterThan(0);
+});
+
+Deno.test("logger.span() logs the error with the span context", async () => {
+  const memory = new MemoryTransport(10);
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "INFORMATIONAL",
+    mode: "JSON",
+    transports: { ERROR: memory },
+  });
+  const error = new Error("Oops!");
+
+  expect(() =>
+    logger.span("sync", () => {
+      throw error;
+    }),
+  ).to.throw(error);
+
+  let rejection: unknown;
+
+  await logger.span("async", () => Promise.reject(error)).catch((e) => (rejection = e));
+
+  const [sync, async] = memory.entries.map((entry) => entry.logObject);
+
+  expect(rejection).to.equal(error);
+  expect(sync.message).to.match(/^Failed sync after \d+\.\d{2}ms\.$/);
+  expect(sync["span.name"]).to.equal("sync");
+  expect(sync["error.message"]).to.equal("Oops!");
+  expect(async["span.name"]).to.equal("async");
+  expect(async["event.duration"]).to.be.a("number");
+});
+
+Deno.test("logger.span() writes the pretty output from the caller", async () => {
+  const memory = new MemoryTransport(10);
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "DEBUG",
+    mode: "PRETTY",
+    colors: false,
+    transports: { DEBUG: memory, INFORMATIONAL: memory },
+  });
+
+  await logger.span("build", async () => {
+    await new Promise((resolve) => setTimeout(resolve, 1));
+  });
+
+  const [start, end] = memory.messages;
+  const origin = (message: string) => message.match(/\] (\S+) /)?.[1];
+
+  expect(end).to.match(/ Finished build in \d+\.\d{2}ms\. $/);
+  expect(origin(end)).to.equal(origin(start));
+  expect(origin(end)).to.not.include("logger.ts");
+});
+
+Deno.test("logger supports trace, fatal and custom levels", () => {
+  const memory = new MemoryTransport(10);
+  const notices = new MemoryTransport(10, { format: "PRETTY" });
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "TRACE",
+    mode: "JSON",
+    inspectOptions: { colors: false },
+    levels: {
+      NOTICE: { severity: 35, color: (text) => `<${text}>`, transport: notices },
+    },
+    transports: { TRACE: memory, FATAL: memory },
+  });
+
+  logger.trace("Tracing");
+  logger.fatal("Crashed", new Error("Oops!"));
+  logger.log("NOTICE", "Noticed");
+
+  expect(memory.entries.map((entry) => entry.logObject["log.level"])).to.deep.equal([
+    "TRACE",
+    "FATAL",
+  ]);
+  expect(memory.entries[1].logObject["error.message"]).to.equal("Oops!");
+  expect(notices.messages[0]).to.include("<NOTICE");
+  expect(() => logger.log("UNKNOWN", "Lost")).to.throw("UNKNOWN");
+});
+
+Deno.test("logger applies the threshold of its module", () => {
+  const memory = new MemoryTransport(10);
+  const { severity, modules } = LoggerConfig.SeveritySpecSchema.parse(
+    "warning,process:debug,git:SILENT",
+  );
+  const logger = new Logger({
+    application: "run",
+    environment: "test",
+    severity,
+    modules,
+    mode: "JSON",
+    transports: { DEBUG: memory, INFORMATIONAL: memory, WARNING: memory },
+  });
+
+  logger.info("Hidden");
+  logger.warn("Shown");
+  logger.getSubLogger({ module: "process" }).debug("Executing");
+  logger.getSubLogger({ module: "git" }).warn("Silenced");
+
+  expect({ severity, modules }).to.deep.equal({
+    severity: "WARN",
+    modules: { process: "DEBUG", git: "SILENT" },
+  });
+  expect(memory.entries.map((entry) => entry.logObject.message)).to.deep.equal([
+    "Shown",
+    "Executing",
+  ]);
+  expect(
+    () =>
+      new Logger({ application: "a", environment: "", severity: "LOUD", mode: "JSON" }),
+  ).to.throw("LOUD");
+});
+
+Deno.test("logger strips the styles of the pretty output without colors", () => {
+  const createLogger = (colors: boolean) => {
+    const memory = new MemoryTransport(10);
+    const logger = new Logger({
+      application: "test",
+      environment: "test",
+      severity: "INFO",
+      mode: "PRETTY",
+      colors,
+      transports: { INFO: memory },
+    });
+
+    logger.info("Deploying", { files: 2 });
+
+    return memory.messages[0];
+  };
+
+  expect(createLogger(false)).to.not.include("\u001b[");
+  expect(createLogger(false)).to.include("Deploying \n{ files: 2 }");
+  expect(createLogger(true)).to.include("\u001b[33mDeploying\u001b[39m");
+  expect(createLogger(true)).to.include("\u001b[33m2\u001b[39m");
+});
+
+Deno.test("logger logs without an origin when there are no call sites", () => {
+  const memory = new MemoryTransport(10);
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "INFO",
+    mode: "JSON",
+    transports: { INFO: memory },
+  });
+  const stackTraceLimit = Error.stackTraceLimit;
+
+  Error.stackTraceLimit = 0;
+
+  try {
+    logger.info("Without stack");
+  } finally {
+    Error.stackTraceLimit = stackTraceLimit;
+  }
+
+  const [{ logObject }] = memory.entries;
+
+  expect(logObject.message).to.equal("Without stack");
+  expect(logObject["log.origin.file.path"]).to.equal("");
+  expect(logObject["log.origin.file.line"]).to.equal(0);
+});
+
+Deno.test("logger leaves the HTTP version out of the pretty output when unknown", () => {
+  const memory = new MemoryTransport(10);
+  const logger = new Logger({
+    application: "test",
+    environment: "test",
+    severity: "INFO",
+    mode: "PRETTY",
+    colors: false,
+    transports: { HTTP: memory },
+  });
+  const request = { method: "GET", originalUrl: "/users", get: () => undefined };
+  const response = { statusCode: 200, duration: 5, get: () => undefined };
+
+  logger.http(request, response);
+  logger.http({ ...request, httpVersion: "2" }, response);
+
+  expect(memory.messages[0]).to.include('"GET /users" 200 5ms');
+  expect(memory.messages[1]).to.include('"GET /users HTTP/2" 200 5ms');
+});
@@ -0,0 +1,138 @@
+import { LogCapture, withGlobalLogger } from "@tools/logger-testing.ts";
+import {
+  SubprocessError,
+  SubprocessTimeoutError,
+  spawnCommand,
+  type SpawnOptions,
+} from "@tools/process.ts";
+import { expect } from "../dependencies.ts";
+
+function spawnScript(script: string, options: SpawnOptions = {}) {
+  return spawnCommand(Deno.execPath(), { ...options, args: ["eval", script] });
+}
+
+Deno.test("spawnCommand() logs each line and returns the captured output", async () => {
+  const capture = new LogCapture();
+  const result = await withGlobalLogger(capture.logger, () =>
+    spawnScript(
+      `const input = await new Response(Deno.stdin.readable).text();
+      console.log(input.toUpperCase());
+      console.error("Almost done");
+      await Deno.stdout.write(new TextEncoder().encode("Done"));`,
+      { input: "first\r\nsecond", stderrLevel: "WARN" },
+    ),
+  );
+
+  expect(result.code).to.equal(0);
+  expect(result.success).to.equal(true);
+  expect(result.duration).to.be.greaterThan(0);
+  expect(result.stdout).to.equal("FIRST\r\nSECOND\nDone");
+  expect(result.stderr).to.equal("Almost done\n");
+  const messages = capture
+    .find({ module: "process", labels: { command: Deno.execPath() } })
+    .map((log) => `${log["log.level"]} ${log.message}`);
+
+  expect(messages.slice(0, 4)).to.deep.equal([
+    "INFO FIRST",
+    "INFO SECOND",
+    "WARN Almost done",
+    "INFO Done",
+  ]);
+  expect(messages[4]).to.match(/^DEBUG The command .+ exited with code 0 in [\d.]+ms\.$/);
+});
+
+Deno.test(
+  "spawnCommand() throws on a non-zero exit code unless check is false",
+  async () => {
+    const script = `console.error("Oops!"); Deno.exit(3);`;
+    const error = await spawnScript(script, { quiet: true }).catch((error) => error);
+    const result = await spawnScript(script, { quiet: true, check: false });
+
+    expect(error).to.be.instanceOf(SubprocessError);
+    expect(error.cause.output).to.equal("Oops!\n");
+    expect(result.code).to.equal(3);
+    expect(result.success).to.equal(false);
+  },
+);
+
+Deno.test("spawnCommand() kills the command when the timeout ends", async () => {
+  const script = `Deno.addSignalListener("SIGTERM", () => console.log("Ignored"));
+    console.log("Started");
+    setInterval(() => {}, 1000);`;
+  const start = performance.now();
+  const error = await spawnScript(script, {
+    timeout: 1500,
+    killDelay: 100,
+    quiet: true,
+  }).catch((error) => error);
+
+  expect(error).to.be.instanceOf(SubprocessTimeoutError);
+  expect(error.message).to.include("timed out after 1500ms");
+  expect(performance.now() - start).to.be.lessThan(10_000);
+});
+
+Deno.test("spawnCommand() stops the command when the signal is aborted", async () => {
+  const controller = new AbortController();
+  const reason = new Error("Cancelled");
+  const pending = spawnScript(`setInterval(() => {}, 1000);`, {
+    signal: controller.signal,
+    quiet: true,
+  });
+
+  setTimeout(() => controller.abort(reason), 100);
+
+  expect(await pending.catch((error) => error)).to.equal(reason);
+
+  const aborted = await spawnScript(`console.log("Never")`, {
+    signal: AbortSignal.abort(reason),
+  }).catch((error) => error);
+
+  expect(aborted).to.equal(reason);
+});
+
+Deno.test("spawnCommand() kills the command when logging a line fails", async () => {
+  const capture = new LogCapture();
+  const dir = Deno.makeTempDirSync();
+  const marker = `${dir}/still-running`;
+  const write = capture.transport.write.bind(capture.transport);
+
+  capture.transport.write = (message, logObject) => {
+    if (logObject.message === "Started") throw new Error("Disk full");
+
+    write(message, logObject);
+  };
+
+  try {
+    const error = await withGlobalLogger(capture.logger, () =>
+      spawnScript(
+        `console.log("Started");
+        await new Promise((resolve) => setTimeout(resolve, 500));
+        Deno.writeTextFileSync(${JSON.stringify(marker)}, "");`,
+      ),
+    ).catch((error) => error);
+
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+
+    expect(error.message).to.equal("Disk full");
+    expect(() => Deno.statSync(marker)).to.throw(Deno.errors.NotFound);
+  } finally {
+    Deno.removeSync(dir, { recursive: true });
+  }
+});
+
+Deno.test("spawnCommand() checks the levels before spawning the command", async () => {
+  const dir = Deno.makeTempDirSync();
+  const marker = `${dir}/spawned`;
+  const script = `Deno.writeTextFileSync(${JSON.stringify(marker)}, "");`;
+
+  try {
+    const error = await spawnScript(script, { stderrLevel: "NOTICE" }).catch(
+      (error) => error,
+    );
+
+    expect(error.message).to.equal("The level NOTICE isn't defined in the logger.");
+    expect(() => Deno.statSync(marker)).to.throw(Deno.errors.NotFound);
+  } finally {
+    Deno.removeSync(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,78 @@
+import { parseCommit } from "@tools/commits.ts";
+import { inferReleaseType, replaceVersionField } from "@tools/release.ts";
+import { VersionObject } from "@tools/semver.ts";
+import { expect } from "../dependencies.ts";
+
+function createCommits(...subjects: string[]) {
+  return subjects.map((subject, i) => parseCommit({ id: `${i}`, subject }));
+}
+
+Deno.test("inferReleaseType() recommends a major release for breaking changes", () => {
+  const commits = createCommits("feat: add tags", "fix!: drop string flags");
+  const recommendation = inferReleaseType(commits);
+
+  expect(recommendation.type).to.equal("major");
+  expect(recommendation.commits.map((c) => c.id)).to.deep.equal(["1"]);
+});
+
+Deno.test("inferReleaseType() recommends a minor release for new features", () => {
+  const commits = createCommits(":sparkles: Add bump command", ":bug: Fix tags");
+  const recommendation = inferReleaseType(commits);
+
+  expect(recommendation.type).to.equal("minor");
+  expect(recommendation.commits.map((c) => c.id)).to.deep.equal(["0"]);
+});
+
+Deno.test("inferReleaseType() recommends a patch release for fixes", () => {
+  const recommendation = inferReleaseType(createCommits("fix: handle empty output"));
+
+  expect(recommendation.type).to.equal("patch");
+});
+
+Deno.test("inferReleaseType() doesn't recommend a release for chores", () => {
+  const recommendation = inferReleaseType(createCommits("docs: typo", "chore: deps"));
+
+  expect(recommendation.type).to.equal(null);
+  expect(recommendation.commits).to.have.length(0);
+});
+
+Deno.test("versionObject.getNextVersion() increments an ongoing prerelease", () => {
+  const current = new VersionObject("1.3.0-rc.1");
+
+  expect(current.getNextVersion("minor", "rc").version).to.equal("1.3.0-rc.2");
+  expect(current.getNextVersion("patch", "rc").version).to.equal("1.3.0-rc.2");
+  expect(current.getNextVersion("major", "rc").version).to.equal("2.0.0-rc.0");
+  expect(current.getNextVersion("minor").version).to.equal("1.3.0");
+});
+
+Deno.test("replaceVersionField() replaces only the top-level version", () => {
+  const content = [
+    "{",
+    '  "name": "toolkit",',
+    '  "engines": { "version": "1.0.0" },',
+    '  "versions": ["0.1.0"],',
+    '  "version": "0.1.0"',
+    "}",
+    "",
+  ].join("\n");
+
+  expect(replaceVersionField(content, "0.2.0")).to.equal(
+    content.replace('"version": "0.1.0"', '"version": "0.2.0"'),
+  );
+});
+
+Deno.test("replaceVersionField() skips comments and nested versions", () => {
+  const content = `{
+  // "version": "0.0.0"
+  "tasks": { "version": "deno run version.ts" },
+  /* "version": "0.0.0" */ "version" : "0.1.0-rc.1"
+}`;
+
+  expect(replaceVersionField(content, "0.1.0")).to.equal(
+    content.replace('"0.1.0-rc.1"', '"0.1.0"'),
+  );
+  expect(replaceVersionField(`{ "tasks": { "version": "1.0.0" } }`, "0.2.0")).to.equal(
+    null,
+  );
+  expect(replaceVersionField(`["version", "0.1.0"]`, "0.2.0")).to.equal(null);
+});
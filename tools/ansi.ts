@@ -0,0 +1,383 @@
+// deno-lint-ignore-file no-namespace
+const ESCAPE = "\u001b";
+const ANSI_REGEX = new RegExp(`${ESCAPE}\\[[\\d;]*m`, "g");
+
+/**
+ * How many colors the output supports.
+ */
+export const ColorLevel = {
+  None: 0,
+  Basic: 1,
+  Ansi256: 2,
+  TrueColor: 3,
+} as const;
+
+export type ColorLevel = (typeof ColorLevel)[keyof typeof ColorLevel];
+
+/**
+ * The opening and closing SGR codes of each style.
+ */
+export const StyleCode = {
+  reset: [0, 0],
+  bold: [1, 22],
+  dim: [2, 22],
+  italic: [3, 23],
+  underline: [4, 24],
+  inverse: [7, 27],
+  hidden: [8, 28],
+  strikethrough: [9, 29],
+  black: [30, 39],
+  red: [31, 39],
+  green: [32, 39],
+  yellow: [33, 39],
+  blue: [34, 39],
+  magenta: [35, 39],
+  cyan: [36, 39],
+  white: [37, 39],
+  gray: [90, 39],
+  redBright: [91, 39],
+  greenBright: [92, 39],
+  yellowBright: [93, 39],
+  blueBright: [94, 39],
+  magentaBright: [95, 39],
+  cyanBright: [96, 39],
+  whiteBright: [97, 39],
+  bgBlack: [40, 49],
+  bgRed: [41, 49],
+  bgGreen: [42, 49],
+  bgYellow: [43, 49],
+  bgBlue: [44, 49],
+  bgMagenta: [45, 49],
+  bgCyan: [46, 49],
+  bgWhite: [47, 49],
+  bgGray: [100, 49],
+  bgRedBright: [101, 49],
+  bgGreenBright: [102, 49],
+  bgYellowBright: [103, 49],
+  bgBlueBright: [104, 49],
+  bgMagentaBright: [105, 49],
+  bgCyanBright: [106, 49],
+  bgWhiteBright: [107, 49],
+} as const;
+
+export namespace Ansi {
+  export type StyleName = keyof typeof StyleCode;
+
+  /**
+   * A chainable style: call it to style a text, or access another style to combine both.
+   */
+  export type Style = {
+    (text: string): string;
+    /**
+     * The color level of the style. Colors are downsampled to it.
+     */
+    readonly level: ColorLevel;
+    /**
+     * Adds a foreground color from its red, green and blue components.
+     */
+    rgb(red: number, green: number, blue: number): Style;
+    /**
+     * Adds a background color from its red, green and blue components.
+     */
+    bgRgb(red: number, green: number, blue: number): Style;
+    /**
+     * Adds a foreground color from its hexadecimal code, like `#ff8800`.
+     */
+    hex(color: string): Style;
+    /**
+     * Adds a background color from its hexadecimal code, like `#ff8800`.
+     */
+    bgHex(color: string): Style;
+    /**
+     * Adds a foreground color from the 256 colors palette.
+     */
+    ansi256(code: number): Style;
+    /**
+     * Adds a background color from the 256 colors palette.
+     */
+    bgAnsi256(code: number): Style;
+  } & { readonly [K in StyleName]: Style };
+
+  export type DetectionOptions = {
+    /**
+     * The environment variables. Defaults to the ones of the process.
+     */
+    env?: Record<string, string | undefined>;
+    /**
+     * Whether the output is a terminal. Defaults to checking the standard output.
+     */
+    isTerminal?: boolean;
+  };
+}
+
+/**
+ * Detects how many colors the standard output supports.
+ *
+ * - `FORCE_COLOR` sets the level: `0` or `false` disables colors, `1`, `true` or an empty
+ *   value enables basic colors, `2` enables 256 colors and `3` enables true colors.
+ * - `NO_COLOR`, `TERM=dumb` or an output that isn't a terminal disable colors.
+ * - Otherwise, `COLORTERM` and `TERM` tell if true colors or 256 colors are supported.
+ *
+ * @param options - The environment and terminal to check.
+ * @returns The color level.
+ *
+ * @example
+ *
+ * ```ts
+ * import { ColorLevel, detectColorLevel } from "./ansi.ts";
+ *
+ * const level = detectColorLevel({ env: { NO_COLOR: "1" }, isTerminal: true });
+ *
+ * console.assert(level === ColorLevel.None);
+ * ```
+ */
+export function detectColorLevel(options: Ansi.DetectionOptions = {}): ColorLevel {
+  const env = options.env || getEnv(["FORCE_COLOR", "NO_COLOR", "TERM", "COLORTERM"]);
+  const isTerminal = options.isTerminal ?? isStdoutTerminal();
+  const forced = env.FORCE_COLOR;
+
+  if (forced !== undefined) {
+    if (forced === "0" || forced === "false") return ColorLevel.None;
+    if (forced === "" || forced === "true") return ColorLevel.Basic;
+
+    return Math.min(Math.max(Number(forced) || 1, 1), 3) as ColorLevel;
+  }
+
+  if (env.NO_COLOR || !isTerminal || env.TERM === "dumb") {
+    return ColorLevel.None;
+  }
+
+  if (/^(?:truecolor|24bit)$/i.test(env.COLORTERM || "")) {
+    return ColorLevel.TrueColor;
+  }
+
+  if (/256/.test(env.TERM || "")) {
+    return ColorLevel.Ansi256;
+  }
+
+  return ColorLevel.Basic;
+}
+
+/**
+ * Creates chainable styles for the given color level. With `ColorLevel.None`, the styles
+ * return the text as it is.
+ *
+ * @param level - The color level. Defaults to the one of the standard output.
+ * @returns The root style, which doesn't style the text by itself.
+ *
+ * @example
+ *
+ * ```ts
+ * import { ColorLevel, createAnsi } from "./ansi.ts";
+ *
+ * const ansi = createAnsi(ColorLevel.Basic);
+ *
+ * console.assert(ansi.bold.red("Oops!") === "\u001b[1m\u001b[31mOops!\u001b[39m\u001b[22m");
+ * console.assert(createAnsi(ColorLevel.None).bold("Oops!") === "Oops!");
+ * ```
+ */
+export function createAnsi(level: ColorLevel = detectColorLevel()): Ansi.Style {
+  const prototype = Object.create(Function.prototype);
+  const codesByStyle = new WeakMap<object, Code[]>();
+  const build = (codes: Code[]) => {
+    const style = (text: string) => applyCodes(String(text), level ? codes : []);
+
+    Object.setPrototypeOf(style, prototype);
+    codesByStyle.set(style, codes);
+
+    return style as Ansi.Style;
+  };
+  const extend = (style: object, code: Code) =>
+    build([...codesByStyle.get(style)!, code]);
+
+  for (const [name, [open, close]] of Object.entries(StyleCode)) {
+    Object.defineProperty(prototype, name, {
+      get() {
+        return extend(this, { open: `${open}`, close: `${close}` });
+      },
+    });
+  }
+
+  Object.defineProperties(prototype, {
+    level: { value: level },
+    rgb: {
+      value(this: object, red: number, green: number, blue: number) {
+        return extend(this, toColorCode(level, [red, green, blue], false));
+      },
+    },
+    bgRgb: {
+      value(this: object, red: number, green: number, blue: number) {
+        return extend(this, toColorCode(level, [red, green, blue], true));
+      },
+    },
+    hex: {
+      value(this: object, color: string) {
+        return extend(this, toColorCode(level, hexToRgb(color), false));
+      },
+    },
+    bgHex: {
+      value(this: object, color: string) {
+        return extend(this, toColorCode(level, hexToRgb(color), true));
+      },
+    },
+    ansi256: {
+      value(this: object, code: number) {
+        return extend(this, toColorCode(level, code, false));
+      },
+    },
+    bgAnsi256: {
+      value(this: object, code: number) {
+        return extend(this, toColorCode(level, code, true));
+      },
+    },
+  });
+
+  return build([]);
+}
+
+/**
+ * Removes the ANSI styles of a text.
+ *
+ * @param text - The styled text.
+ * @returns The text without styles.
+ *
+ * @example
+ *
+ * ```ts
+ * import { ColorLevel, createAnsi, stripAnsi } from "./ansi.ts";
+ *
+ * console.assert(stripAnsi(createAnsi(ColorLevel.Basic).red("Oops!")) === "Oops!");
+ * ```
+ */
+export function stripAnsi(text: string) {
+  return text.replace(ANSI_REGEX, "");
+}
+
+/**
+ * Styles for the standard output, with its detected color level.
+ */
+export const ansi = createAnsi();
+
+type Code = { open: string; close: string };
+
+type Rgb = [number, number, number];
+
+function applyCodes(text: string, codes: Code[]) {
+  let result = text;
+
+  for (const { open, close } of codes) {
+    // Reopens the style after a nested style closes it.
+    result = result.replaceAll(
+      `${ESCAPE}[${close}m`,
+      `${ESCAPE}[${close}m${ESCAPE}[${open}m`,
+    );
+  }
+
+  const opening = codes.map((code) => `${ESCAPE}[${code.open}m`).join("");
+  const closing = codes
+    .map((code) => `${ESCAPE}[${code.close}m`)
+    .reverse()
+    .join("");
+
+  return opening + result + closing;
+}
+
+function toColorCode(level: ColorLevel, color: Rgb | number, background: boolean): Code {
+  const close = background ? "49" : "39";
+
+  if (level >= ColorLevel.TrueColor && typeof color !== "number") {
+    return { open: `${background ? 48 : 38};2;${color.join(";")}`, close };
+  }
+
+  if (level >= ColorLevel.Ansi256) {
+    const code = typeof color === "number" ? color : rgbToAnsi256(color);
+
+    return { open: `${background ? 48 : 38};5;${code}`, close };
+  }
+
+  const code =
+    typeof color !== "number"
+      ? rgbToBasic(color)
+      : color < 16
+      ? color + (color < 8 ? 30 : 82)
+      : rgbToBasic(ansi256ToRgb(color));
+
+  return { open: `${code + (background ? 10 : 0)}`, close };
+}
+
+function hexToRgb(color: string): Rgb {
+  const hex = color.replace(/^#/, "");
+  const full = hex.length === 3 ? hex.replace(/./g, "$&$&") : hex;
+  const value = parseInt(full, 16) || 0;
+
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+function rgbToAnsi256([red, green, blue]: Rgb) {
+  if (red === green && green === blue) {
+    if (red < 8) return 16;
+    if (red > 248) return 231;
+
+    return Math.round(((red - 8) / 247) * 24) + 232;
+  }
+
+  const [r, g, b] = [red, green, blue].map((value) => Math.round((value / 255) * 5));
+
+  return 16 + 36 * r + 6 * g + b;
+}
+
+function ansi256ToRgb(code: number): Rgb {
+  if (code >= 232) {
+    const value = (code - 232) * 10 + 8;
+
+    return [value, value, value];
+  }
+
+  const index = code - 16;
+
+  return [Math.floor(index / 36), Math.floor(index / 6) % 6, index % 6].map((value) =>
+    value ? value * 40 + 55 : 0,
+  ) as Rgb;
+}
+
+function rgbToBasic([red, green, blue]: Rgb) {
+  const brightness = Math.round((Math.max(red, green, blue) / 255) * 2);
+
+  if (brightness === 0) return 30;
+
+  const code =
+    30 +
+    ((Math.round(blue / 255) << 2) |
+      (Math.round(green / 255) << 1) |
+      Math.round(red / 255));
+
+  return brightness === 2 ? code + 60 : code;
+}
+
+function isStdoutTerminal() {
+  try {
+    // `isTerminal()` replaced `Deno.isatty()` in Deno 1.40.
+    if (typeof Deno.stdout.isTerminal === "function") {
+      return Deno.stdout.isTerminal();
+    }
+
+    // deno-lint-ignore no-deprecated-deno-api
+    return Deno.isatty(Deno.stdout.rid);
+  } catch {
+    return false;
+  }
+}
+
+function getEnv(names: string[]) {
+  const env: Record<string, string | undefined> = {};
+
+  for (const name of names) {
+    try {
+      env[name] = Deno.env.get(name);
+    } catch {
+      // Without permission to read the environment, the variable counts as unset.
+    }
+  }
+
+  return env;
+}
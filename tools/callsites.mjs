@@ -62,6 +62,11 @@ export function callsites(error = new StackOnlyError()) {
       /** @type {unknown} */ (error.stack)
     );
 
+    // The stack was already formatted as a string, so the call sites are gone.
+    if (!Array.isArray(stack)) {
+      return [];
+    }
+
     if (error instanceof StackOnlyError) {
       stack.shift();
     }
@@ -102,7 +107,7 @@ export function parseCallsite(cs) {
 function isNotInternal(cs) {
   const filename = cs.getFileName();
 
-  if (typeof filename === "undefined") return true;
+  if (typeof filename !== "string") return true;
 
   return !filename.startsWith("node:internal");
 }
@@ -0,0 +1,254 @@
+// deno-lint-ignore-file no-namespace
+import type { ParsedCommit, ParsedCommitMessage } from "./commits.ts";
+import { formatDate } from "./deps.ts";
+import type { VersionObject } from "./semver.ts";
+
+/**
+ * The sections of a Keep a Changelog release, in the order they are rendered.
+ *
+ * @see {@link [Keep a Changelog](https://keepachangelog.com/en/1.1.0/)}
+ */
+export const ChangeCategory = {
+  Added: "Added",
+  Changed: "Changed",
+  Deprecated: "Deprecated",
+  Removed: "Removed",
+  Fixed: "Fixed",
+  Security: "Security",
+} as const;
+
+export type ChangeCategory = (typeof ChangeCategory)[keyof typeof ChangeCategory];
+
+/**
+ * Maps Conventional Commit types and gitmoji codes to the changelog category they belong.
+ *
+ * Types mapped to `null` are left out of the changelog, unless the commit is a breaking
+ * change. Types that aren't listed at all are considered a {@link ChangeCategory.Changed}.
+ */
+export const CategoryByCommitType: Record<string, ChangeCategory | null> = {
+  "feat": ChangeCategory.Added,
+  "fix": ChangeCategory.Fixed,
+  "perf": ChangeCategory.Changed,
+  "refactor": ChangeCategory.Changed,
+  "revert": ChangeCategory.Changed,
+  "deprecate": ChangeCategory.Deprecated,
+  "remove": ChangeCategory.Removed,
+  "security": ChangeCategory.Security,
+  "build": null,
+  "chore": null,
+  "ci": null,
+  "docs": null,
+  "style": null,
+  "test": null,
+  ":sparkles:": ChangeCategory.Added,
+  ":tada:": ChangeCategory.Added,
+  ":children_crossing:": ChangeCategory.Added,
+  ":bug:": ChangeCategory.Fixed,
+  ":ambulance:": ChangeCategory.Fixed,
+  ":adhesive_bandage:": ChangeCategory.Fixed,
+  ":pencil2:": ChangeCategory.Fixed,
+  ":wastebasket:": ChangeCategory.Deprecated,
+  ":fire:": ChangeCategory.Removed,
+  ":coffin:": ChangeCategory.Removed,
+  ":lock:": ChangeCategory.Security,
+  ":passport_control:": ChangeCategory.Security,
+  ":memo:": null,
+  ":bulb:": null,
+  ":white_check_mark:": null,
+  ":test_tube:": null,
+  ":green_heart:": null,
+  ":construction_worker:": null,
+  ":bookmark:": null,
+  ":rotating_light:": null,
+  ":see_no_evil:": null,
+  ":construction:": null,
+  ":wrench:": null,
+  ":hammer:": null,
+  ":art:": null,
+};
+
+/**
+ * Gets the changelog category of a commit based on its type. Breaking changes of ignored
+ * or unknown types are listed as changed.
+ *
+ * @param commit - The parsed commit header.
+ * @returns The category, or `null` if the commit shouldn't appear in the changelog.
+ *
+ * @example
+ *
+ * ```ts
+ * import { getChangeCategory } from "./changelog.ts";
+ * import { parseCommitSubject } from "./commits.ts";
+ *
+ * console.assert(getChangeCategory(parseCommitSubject("feat: add bump")) === "Added");
+ * console.assert(getChangeCategory(parseCommitSubject(":bug: Fix tag")) === "Fixed");
+ * console.assert(getChangeCategory(parseCommitSubject("docs: typo")) === null);
+ * ```
+ */
+export function getChangeCategory(
+  commit: Pick<ParsedCommitMessage.Header, "type" | "breaking">,
+) {
+  const category = commit.type ? CategoryByCommitType[commit.type] : undefined;
+
+  if (!category) {
+    return commit.breaking ? ChangeCategory.Changed : null;
+  }
+
+  return category;
+}
+
+/**
+ * Creates a changelog section for the given version out of a list of commits.
+ *
+ * @param version - The version being released.
+ * @param commits - The commits included in the release.
+ * @param date - The release date. Defaults to today.
+ * @returns The changelog section, with its entries grouped by category.
+ */
+export function createChangelogSection(
+  version: VersionObject,
+  commits: ParsedCommit[],
+  date = new Date(),
+): Changelog.Section {
+  const changes: Changelog.Section["changes"] = {};
+
+  for (const commit of commits) {
+    const category = getChangeCategory(commit);
+
+    if (category === null) continue;
+
+    changes[category] ??= [];
+    changes[category]!.push({
+      id: commit.id,
+      hash: commit.hash,
+      scope: commit.scope,
+      description: commit.description,
+      breaking: commit.breaking,
+      breakingChange: commit.breakingChange,
+    });
+  }
+
+  return {
+    version: version.version,
+    tag: version.tag,
+    date: formatDate(date, "yyyy-MM-dd"),
+    changes,
+  };
+}
+
+/**
+ * Renders a changelog section as Markdown, following the Keep a Changelog format.
+ *
+ * @param section - The section to render.
+ * @returns The rendered Markdown.
+ *
+ * @example
+ *
+ * ```ts
+ * import { renderChangelogSection } from "./changelog.ts";
+ *
+ * const markdown = renderChangelogSection({
+ *   version: "1.1.0",
+ *   tag: "v1.1.0",
+ *   date: "2024-01-01",
+ *   changes: {
+ *     Added: [
+ *       {
+ *         id: "a1b2c3d",
+ *         hash: "a1b2c3d4",
+ *         scope: "git",
+ *         description: "Add tags",
+ *         breaking: false,
+ *         breakingChange: null,
+ *       },
+ *     ],
+ *   },
+ * });
+ *
+ * console.assert(markdown.startsWith("## [v1.1.0] - 2024-01-01"));
+ * console.assert(markdown.includes("- **git:** Add tags (a1b2c3d)"));
+ * ```
+ */
+export function renderChangelogSection(section: Changelog.Section) {
+  const lines = [`## [${section.tag}] - ${section.date}`];
+
+  for (const category of Object.values(ChangeCategory)) {
+    const entries = section.changes[category];
+
+    if (!entries || entries.length === 0) continue;
+
+    lines.push("", `### ${category}`, "");
+    lines.push(...entries.map(renderChangelogEntry));
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Adds a rendered section on top of the existing changelog content, right before the
+ * latest release. If there's no content yet, the default Keep a Changelog header is used.
+ *
+ * @param content - The current content of the changelog file.
+ * @param section - The rendered section to add.
+ * @returns The new content of the changelog file.
+ */
+export function prependChangelogSection(content: string, section: string) {
+  if (!content.trim()) {
+    return `${CHANGELOG_HEADER}\n${section}`;
+  }
+
+  const lines = content.split("\n");
+  const index = lines.findIndex((line) => /^## \[(?!unreleased\])/i.test(line));
+
+  if (index === -1) {
+    return `${content.trimEnd()}\n\n${section}`;
+  }
+
+  lines.splice(index, 0, section);
+
+  return lines.join("\n");
+}
+
+const CHANGELOG_HEADER = `# Changelog
+
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.1.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+`;
+
+function renderChangelogEntry(entry: Changelog.Entry) {
+  const scope = entry.scope ? `**${entry.scope}:** ` : "";
+  const breaking = entry.breaking ? "**BREAKING** " : "";
+  let line = `- ${breaking}${scope}${entry.description} (${entry.id})`;
+
+  if (entry.breakingChange) {
+    line += `\n  ${entry.breakingChange.replaceAll("\n", "\n  ")}`;
+  }
+
+  return line;
+}
+
+export namespace Changelog {
+  /**
+   * A single change listed in a changelog section.
+   */
+  export type Entry = {
+    id: string;
+    hash: string;
+    scope: string | null;
+    description: string;
+    breaking: boolean;
+    breakingChange: string | null;
+  };
+
+  /**
+   * The changes of a single release.
+   */
+  export type Section = {
+    version: string;
+    tag: string;
+    date: string;
+    changes: Partial<Record<ChangeCategory, Entry[]>>;
+  };
+}
@@ -1,5 +1,4 @@
 // deno-lint-ignore-file no-namespace
-import { Logger } from "./logger.ts";
 import { Expand, KeyOf } from "./typings.ts";
 
 /**
@@ -224,12 +223,14 @@ export namespace CommandOptions {
    * @ignore
    */
   type TypeMap = {
-    string: string;
-    number: number;
-    boolean: boolean;
-    file: string;
-    integer: number;
-    version: "major" | "minor" | "patch";
+    "string": string;
+    "number": number;
+    "boolean": boolean;
+    "file": string;
+    "integer": number;
+    "version": "major" | "minor" | "patch";
+    "format": "markdown" | "json";
+    "hook-action": "install" | "list" | "remove";
   };
 }
 
@@ -261,11 +262,3 @@ export interface CommandOptions<F, A> {
    */
   flags?: F extends CommandOptions.Flags ? F : never;
 }
-
-declare global {
-  /**
-   * Global logger instance available to any command.
-   */
-  // deno-lint-ignore no-var
-  var logger: Logger;
-}
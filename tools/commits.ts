@@ -0,0 +1,320 @@
+// deno-lint-ignore-file no-namespace
+import { emojiCharToCode } from "./emoji.ts";
+import { Commit, Git } from "./git.ts";
+import { getLatestVersionTag } from "./semver.ts";
+
+const CONVENTIONAL_HEADER_REGEX =
+  /^(?<type>[\w-]+)(?:\((?<scope>[^()]*)\))?(?<breaking>!)?:\s+(?<description>.*)$/;
+
+const GITMOJI_HEADER_REGEX =
+  /^(?<type>:\w+:)\s*(?:\((?<scope>[^()]*)\))?(?<breaking>!)?:?\s*(?<description>.*)$/;
+
+const TRAILER_REGEX = /^(?<key>BREAKING[ -]CHANGE|[\w-]+)(?::\s|\s#)(?<value>.*)$/;
+
+const CO_AUTHOR_REGEX = /^(?<name>.+?)\s*<(?<email>[^>]*)>$/;
+
+const BREAKING_CHANGE_KEYS = ["BREAKING CHANGE", "BREAKING-CHANGE"];
+
+/**
+ * Parses a full commit message into its Conventional Commit or gitmoji parts.
+ *
+ * The first line of the message is treated as the subject, everything after it as the
+ * body, and the last paragraph of the body is read as trailers when every line in it
+ * looks like one (`Key: value` or `Key #value`).
+ *
+ * Emoji characters in the subject are converted into their code (`✨` -> `:sparkles:`)
+ * before parsing, so messages read from a file or from `Git.log()` give the same result.
+ *
+ * @param message - The raw commit message.
+ * @returns The parsed commit message.
+ *
+ * @example
+ *
+ * ```ts
+ * import { parseCommitMessage } from "./commits.ts";
+ *
+ * const parsed = parseCommitMessage(
+ *   "feat(git)!: add tags\n\nSome details.\n\nBREAKING CHANGE: new API\nRefs: #12",
+ * );
+ *
+ * console.assert(parsed.type === "feat");
+ * console.assert(parsed.scope === "git");
+ * console.assert(parsed.breaking === true);
+ * console.assert(parsed.description === "add tags");
+ * console.assert(parsed.body === "Some details.");
+ * console.assert(parsed.breakingChange === "new API");
+ * console.assert(parsed.references[0] === "#12");
+ * ```
+ */
+export function parseCommitMessage(message: string): ParsedCommitMessage {
+  const [subject = "", ...rest] = message.replaceAll("\r\n", "\n").split("\n");
+  const header = parseCommitSubject(subject);
+  const { body, trailers } = splitBody(rest.join("\n"));
+
+  const breakingTrailer = trailers.find((t) => BREAKING_CHANGE_KEYS.includes(t.key));
+  const references = trailers
+    .filter((t) => t.key.toLowerCase() === "refs")
+    .flatMap((t) => t.value.split(/,\s*/))
+    .filter(Boolean);
+  const coAuthors = trailers
+    .filter((t) => t.key.toLowerCase() === "co-authored-by")
+    .map((t) => parseCoAuthor(t.value));
+
+  return {
+    ...header,
+    breaking: header.breaking || breakingTrailer !== undefined,
+    body,
+    trailers,
+    breakingChange: breakingTrailer ? breakingTrailer.value : null,
+    references,
+    coAuthors,
+  };
+}
+
+/**
+ * Parses a commit subject line into its type, scope, breaking marker and description.
+ *
+ * Supports Conventional Commit headers (`feat(scope)!: description`) and gitmoji headers
+ * (`:sparkles: description`, `:sparkles: (scope): description`). When the subject doesn't
+ * follow any of them, `type` and `scope` are `null` and the whole subject is used as the
+ * description.
+ *
+ * @param subject - The commit subject line.
+ * @returns The parsed commit header.
+ *
+ * @example
+ *
+ * ```ts
+ * import { parseCommitSubject } from "./commits.ts";
+ *
+ * const parsed = parseCommitSubject(":bug: (logger): fix padding");
+ *
+ * console.assert(parsed.type === ":bug:");
+ * console.assert(parsed.scope === "logger");
+ * console.assert(parsed.description === "fix padding");
+ * ```
+ */
+export function parseCommitSubject(subject: string): ParsedCommitMessage.Header {
+  const normalized = emojiCharToCode(subject.trim());
+  const match =
+    normalized.match(GITMOJI_HEADER_REGEX) || normalized.match(CONVENTIONAL_HEADER_REGEX);
+
+  if (!match || !match.groups) {
+    return {
+      subject: normalized,
+      type: null,
+      scope: null,
+      breaking: false,
+      description: normalized,
+    };
+  }
+
+  const { type, scope, breaking, description } = match.groups;
+
+  return {
+    subject: normalized,
+    type,
+    scope: scope ? scope.trim() : null,
+    breaking: breaking === "!",
+    description: description.trim(),
+  };
+}
+
+/**
+ * Parses the trailers of a commit message, like `Refs: #12` or `BREAKING CHANGE: new API`.
+ *
+ * A line indented after a trailer continues its value. When any other line doesn't look
+ * like a trailer, the paragraph isn't read as trailers.
+ *
+ * @param paragraph - The last paragraph of the commit message.
+ * @returns The trailers, or an empty array if the paragraph doesn't hold trailers.
+ *
+ * @example
+ *
+ * ```ts
+ * import { parseTrailers } from "./commits.ts";
+ *
+ * const trailers = parseTrailers("Refs: #12\nCo-authored-by: Jane <jane@example.com>");
+ *
+ * console.assert(trailers[1].key === "Co-authored-by");
+ * console.assert(parseTrailers("Not a trailer").length === 0);
+ * ```
+ */
+export function parseTrailers(paragraph: string) {
+  const lines = paragraph.split("\n");
+  const trailers: ParsedCommitMessage.Trailer[] = [];
+
+  if (!TRAILER_REGEX.test(lines[0])) {
+    return trailers;
+  }
+
+  for (const line of lines) {
+    const match = line.match(TRAILER_REGEX);
+
+    if (match && match.groups) {
+      trailers.push({ key: match.groups.key, value: match.groups.value.trim() });
+      continue;
+    }
+
+    if (/^\s+\S/.test(line)) {
+      trailers[trailers.length - 1].value += `\n${line.trim()}`;
+      continue;
+    }
+
+    return [];
+  }
+
+  return trailers;
+}
+
+/**
+ * Parses a commit returned by `Git.log()` and merges the result into it.
+ *
+ * @param commit - A commit with, at least, a subject and optionally a body.
+ * @returns The commit with its parsed message fields.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Git } from "./git.ts";
+ * import { parseCommit } from "./commits.ts";
+ *
+ * const git = new Git();
+ * const commits = git.log({ maxCount: "10" }).map(parseCommit);
+ *
+ * console.assert(commits.every((c) => typeof c.breaking === "boolean"));
+ * ```
+ */
+export function parseCommit<T extends { subject: string; body?: string }>(
+  commit: T,
+): Omit<T, keyof ParsedCommitMessage> & ParsedCommitMessage {
+  const message = commit.body ? `${commit.subject}\n\n${commit.body}` : commit.subject;
+
+  return { ...commit, ...parseCommitMessage(message) };
+}
+
+/**
+ * Gets the commits that haven't been released yet, meaning every commit between the
+ * latest version tag and `HEAD`.
+ *
+ * When the repository doesn't have any version tag, the whole history is returned.
+ *
+ * @param git - The {@link Git} instance of the repository.
+ * @returns The latest version tag, if any, and the parsed commits after it.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Git } from "./git.ts";
+ * import { getUnreleasedCommits } from "./commits.ts";
+ *
+ * const { latestTag, commits } = getUnreleasedCommits(new Git());
+ *
+ * console.assert(latestTag === null || latestTag.startsWith("v"));
+ * console.assert(Array.isArray(commits));
+ * ```
+ */
+export function getUnreleasedCommits(git: Git) {
+  const tags = git.tags().map((tag) => tag.name);
+  const latestTag = getLatestVersionTag(...tags);
+  const commits = latestTag ? git.log({}, `HEAD ^${latestTag}`) : git.log();
+
+  return { latestTag, commits: commits.map(parseCommit) };
+}
+
+/**
+ * A commit returned by `Git.log()` merged with its parsed message.
+ */
+export type ParsedCommit = Omit<Commit, keyof ParsedCommitMessage> & ParsedCommitMessage;
+
+/**
+ * Represents a commit message split into its structured parts.
+ */
+export type ParsedCommitMessage = ParsedCommitMessage.Header & {
+  /**
+   * The commit body, without the trailers.
+   */
+  body: string;
+  /**
+   * Every trailer found at the end of the message, in order.
+   */
+  trailers: ParsedCommitMessage.Trailer[];
+  /**
+   * The description given in a `BREAKING CHANGE:` trailer, if any.
+   */
+  breakingChange: string | null;
+  /**
+   * The references listed in `Refs:` trailers.
+   */
+  references: string[];
+  /**
+   * The co-authors listed in `Co-authored-by:` trailers.
+   */
+  coAuthors: ParsedCommitMessage.Person[];
+};
+
+export namespace ParsedCommitMessage {
+  /**
+   * The parts of a commit subject line.
+   */
+  export type Header = {
+    /**
+     * The full subject, with emoji characters converted into codes.
+     */
+    subject: string;
+    /**
+     * The commit type, like `feat` or a gitmoji code like `:sparkles:`.
+     */
+    type: string | null;
+    /**
+     * The commit scope, like `git` in `fix(git): ...`.
+     */
+    scope: string | null;
+    /**
+     * Whether the commit introduces a breaking change.
+     */
+    breaking: boolean;
+    /**
+     * The subject without its type and scope.
+     */
+    description: string;
+  };
+
+  /**
+   * A `Key: value` pair found at the end of a commit message.
+   */
+  export type Trailer = {
+    key: string;
+    value: string;
+  };
+
+  /**
+   * A person referenced in a trailer, like `Jane Doe <jane@example.com>`.
+   */
+  export type Person = {
+    name: string;
+    email: string;
+  };
+}
+
+function splitBody(rawBody: string) {
+  const paragraphs = rawBody.trim().split(/\n\s*\n/);
+  const lastParagraph = paragraphs[paragraphs.length - 1];
+  const trailers = parseTrailers(lastParagraph);
+
+  if (trailers.length === 0) {
+    return { body: rawBody.trim(), trailers };
+  }
+
+  return { body: paragraphs.slice(0, -1).join("\n\n").trim(), trailers };
+}
+
+function parseCoAuthor(value: string): ParsedCommitMessage.Person {
+  const match = value.match(CO_AUTHOR_REGEX);
+
+  if (!match || !match.groups) {
+    return { name: value, email: "" };
+  }
+
+  return { name: match.groups.name, email: match.groups.email };
+}
@@ -33,6 +33,27 @@ export async function getAllModuleImports(path: string) {
   return Object.values(mod);
 }
 
+/**
+ * Reads a text file, returning a fallback value when the file doesn't exist.
+ *
+ * Any other error, like missing permissions, is thrown as usual.
+ *
+ * @param path - The path of the file to read.
+ * @param fallback - The value to return if the file doesn't exist.
+ * @returns The content of the file or the `fallback`.
+ */
+export function readTextFileOrDefault(path: string | URL, fallback = "") {
+  try {
+    return Deno.readTextFileSync(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return fallback;
+    }
+
+    throw error;
+  }
+}
+
 function getPath(entry: WalkEntry) {
   return toFileUrl(joinPaths(Deno.cwd(), entry.path)).href;
 }
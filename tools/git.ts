@@ -1,12 +1,10 @@
 // deno-lint-ignore-file no-namespace
-import { z } from "./deps.ts";
+import { parseTrailers } from "./commits.ts";
+import { fromFileUrl, z } from "./deps.ts";
 import { emojiCharToCode } from "./emoji.ts";
-import { executeCommand } from "./process.ts";
-import { Template } from "./template.ts";
+import { executeCommand, executeCommandAsync, executeCommandStream } from "./process.ts";
 import { Expand } from "./typings.ts";
 
-Object.defineProperty(globalThis, "executeCommand", { value: executeCommand });
-
 const TrimmedStringSchema = z.string().trim();
 
 /**
@@ -34,14 +32,63 @@ export const CommitSchema = z
       name: TrimmedStringSchema,
       email: TrimmedStringSchema,
     }),
+    /**
+     * The committer of the commit, containing their name, email address and the date in
+     * which the commit was applied.
+     */
+    committer: z.object({
+      name: TrimmedStringSchema,
+      email: TrimmedStringSchema,
+      timestamp: z.preprocess(parseDate, z.date()),
+    }),
     /**
      * The commit subject line.
      */
     subject: TrimmedStringSchema,
+    /**
+     * The commit body - everything after the subject line, including trailers.
+     */
+    body: TrimmedStringSchema,
     /**
      * The commit reference - the branch or tag name.
      */
     ref: TrimmedStringSchema,
+    /**
+     * The hashes of the parent commits. Merge commits have more than one.
+     */
+    parents: z.preprocess(splitBySpaces, z.array(z.string())),
+    /**
+     * The GPG signature of the commit.
+     */
+    signature: z.object({
+      /**
+       * The signature status as reported by `%G?`:
+       * - **G**: good signature.
+       * - **B**: bad signature.
+       * - **U**: good signature with unknown validity.
+       * - **X**: good signature that has expired.
+       * - **Y**: good signature made by an expired key.
+       * - **R**: good signature made by a revoked key.
+       * - **E**: the signature can't be checked, e.g. missing key.
+       * - **N**: no signature.
+       */
+      status: z.enum(["G", "B", "U", "X", "Y", "R", "E", "N"]).catch("N"),
+      /**
+       * The name of the signer.
+       */
+      signer: TrimmedStringSchema,
+      /**
+       * The key used to sign.
+       */
+      key: TrimmedStringSchema,
+    }),
+    /**
+     * The trailers at the end of the commit message, like `Co-authored-by`.
+     */
+    trailers: z.preprocess(
+      parseTrailerLines,
+      z.array(z.object({ key: TrimmedStringSchema, value: TrimmedStringSchema })),
+    ),
   })
   .transform(parseSubject);
 
@@ -50,6 +97,251 @@ export const CommitSchema = z
  */
 export type Commit = z.TypeOf<typeof CommitSchema>;
 
+/**
+ * Defines the schema for a Git branch, as listed by `git branch`.
+ */
+export const BranchSchema = z.object({
+  /**
+   * The short name of the branch, like `main`.
+   */
+  name: TrimmedStringSchema,
+  /**
+   * The hash of the commit the branch points to.
+   */
+  hash: TrimmedStringSchema,
+  /**
+   * The upstream branch, like `origin/main`, if any.
+   */
+  upstream: TrimmedStringSchema.transform(emptyToUndefined),
+  /**
+   * Whether the branch is the one currently checked out.
+   */
+  current: z.preprocess((value) => value === "*", z.boolean()),
+});
+
+/**
+ * The Branch type, which represents a parsed Git branch.
+ */
+export type Branch = z.TypeOf<typeof BranchSchema>;
+
+/**
+ * Defines the schema for a Git tag, as listed by `git tag`.
+ */
+export const TagSchema = z.object({
+  /**
+   * The name of the tag, like `v1.0.0`.
+   */
+  name: TrimmedStringSchema,
+  /**
+   * The hash of the commit the tag points to.
+   */
+  hash: TrimmedStringSchema,
+  /**
+   * Whether the tag is annotated (`tag`) or lightweight (`commit`).
+   */
+  type: z.enum(["tag", "commit"]).catch("commit"),
+  /**
+   * The tag message for annotated tags, or the commit subject for lightweight ones.
+   */
+  subject: TrimmedStringSchema,
+  /**
+   * The date in which the tag (or the commit, for lightweight tags) was created.
+   */
+  timestamp: z.preprocess(parseDate, z.date()),
+});
+
+/**
+ * The Tag type, which represents a parsed Git tag.
+ */
+export type Tag = z.TypeOf<typeof TagSchema>;
+
+const StatusCodeSchema = z.string().length(1);
+
+/**
+ * Defines the schema for a single entry of `git status --porcelain=v2`.
+ */
+export const StatusEntrySchema = z.object({
+  /**
+   * The kind of entry.
+   */
+  kind: z.enum(["changed", "renamed", "unmerged", "untracked", "ignored"]),
+  /**
+   * The status of the index (staged changes). A `.` means unmodified.
+   */
+  index: StatusCodeSchema,
+  /**
+   * The status of the working tree (unstaged changes). A `.` means unmodified.
+   */
+  worktree: StatusCodeSchema,
+  /**
+   * The path of the file.
+   */
+  path: z.string(),
+  /**
+   * The path of the file before being renamed or copied.
+   */
+  originalPath: z.string().optional(),
+});
+
+/**
+ * The StatusEntry type, which represents a single parsed entry of `git status`.
+ */
+export type StatusEntry = z.TypeOf<typeof StatusEntrySchema>;
+
+/**
+ * Defines the schema for the output of `git status --porcelain=v2 --branch`.
+ */
+export const StatusSchema = z
+  .object({
+    /**
+     * Information about the current branch.
+     */
+    branch: z.object({
+      /**
+       * The current commit hash, or `(initial)` in a repository without commits.
+       */
+      oid: z.string(),
+      /**
+       * The current branch name, or `(detached)` when HEAD is detached.
+       */
+      head: z.string(),
+      /**
+       * The upstream branch, if any.
+       */
+      upstream: z.string().optional(),
+      /**
+       * How many commits the current branch is ahead of its upstream.
+       */
+      ahead: z.coerce.number().int().default(0),
+      /**
+       * How many commits the current branch is behind its upstream.
+       */
+      behind: z.coerce.number().int().default(0),
+    }),
+    /**
+     * The changed, untracked and ignored files.
+     */
+    entries: z.array(StatusEntrySchema),
+  })
+  .transform((status) => ({ ...status, clean: status.entries.length === 0 }));
+
+/**
+ * The Status type, which represents the parsed output of `git status`.
+ */
+export type Status = z.TypeOf<typeof StatusSchema>;
+
+const DiffCountSchema = z.preprocess(
+  (value) => (value === "-" ? null : value),
+  z.coerce.number().int().nullable(),
+);
+
+/**
+ * Defines the schema for a single file of `git diff --numstat`.
+ */
+export const DiffStatSchema = z.object({
+  /**
+   * The number of added lines, or `null` for binary files.
+   */
+  added: DiffCountSchema,
+  /**
+   * The number of deleted lines, or `null` for binary files.
+   */
+  deleted: DiffCountSchema,
+  /**
+   * The path of the file.
+   */
+  path: z.string(),
+  /**
+   * The path of the file before being renamed.
+   */
+  originalPath: z.string().optional(),
+});
+
+/**
+ * The DiffStat type, which represents a single parsed file of `git diff --numstat`.
+ */
+export type DiffStat = z.TypeOf<typeof DiffStatSchema>;
+
+/**
+ * Defines the schema for the output of `git describe`, like `v1.2.0-3-gabc1234`.
+ */
+export const DescriptionSchema = TrimmedStringSchema.transform((description) => {
+  const match = description.match(/^(?<tag>.+)-(?<distance>\d+)-g(?<id>[0-9a-f]+)$/);
+
+  if (!match || !match.groups) {
+    return { description, tag: description, distance: 0, id: undefined };
+  }
+
+  return {
+    description,
+    tag: match.groups.tag,
+    distance: Number(match.groups.distance),
+    id: match.groups.id,
+  };
+});
+
+/**
+ * The Description type, which represents the parsed output of `git describe`.
+ */
+export type Description = z.TypeOf<typeof DescriptionSchema>;
+
+/**
+ * Defines the schema for a Git remote, as listed by `git remote --verbose`.
+ */
+export const RemoteSchema = z.object({
+  /**
+   * The name of the remote, like `origin`.
+   */
+  name: TrimmedStringSchema,
+  /**
+   * The URL used to fetch from the remote.
+   */
+  fetchUrl: TrimmedStringSchema,
+  /**
+   * The URL used to push to the remote.
+   */
+  pushUrl: TrimmedStringSchema,
+});
+
+/**
+ * The Remote type, which represents a parsed Git remote.
+ */
+export type Remote = z.TypeOf<typeof RemoteSchema>;
+
+/**
+ * Defines the schema for a stash entry, as listed by `git stash list`.
+ */
+export const StashSchema = z.object({
+  /**
+   * The stash reference, like `stash@{0}`.
+   */
+  ref: TrimmedStringSchema,
+  /**
+   * The hash of the stash commit.
+   */
+  hash: TrimmedStringSchema,
+  /**
+   * The stash message, like `On main: work in progress`.
+   */
+  subject: TrimmedStringSchema,
+});
+
+/**
+ * The Stash type, which represents a parsed stash entry.
+ */
+export type Stash = z.TypeOf<typeof StashSchema>;
+
+function parseStatusEntry(kind: string, line: string, fieldCount: number) {
+  const fields = line.split(" ");
+  const [index, worktree] = fields[1];
+
+  return { kind, index, worktree, path: fields.slice(fieldCount).join(" ") };
+}
+
+function emptyToUndefined(value: string) {
+  return value || undefined;
+}
+
 function parseDate(date: unknown) {
   const asNumber = Number(date);
 
@@ -60,29 +352,96 @@ function parseDate(date: unknown) {
   return new Date(date as string);
 }
 
+function splitBySpaces(value: unknown) {
+  return typeof value === "string" ? value.split(" ").filter(Boolean) : value;
+}
+
+function parseTrailerLines(value: unknown) {
+  return typeof value === "string" ? parseTrailers(value.trim()) : value;
+}
+
 function parseSubject<T extends { subject: string }>(commit: T) {
   commit.subject = emojiCharToCode(commit.subject);
 
   return commit;
 }
 
+function mergeCommandOptions(defaults: GitDefaultOptions, options: Deno.CommandOptions) {
+  const merged = { ...defaults, ...options };
+
+  if (defaults.env || options.env) {
+    merged.env = { ...defaults.env, ...options.env };
+  }
+
+  return merged;
+}
+
 export type GitDefaultOptions = Expand<Omit<Deno.CommandOptions, "args">>;
 
-const commitFormat = {
-  hash: "%H",
-  id: "%h",
-  timestamp: "%ad",
-  author: {
-    name: "%an",
-    email: "%ae",
-  },
-  subject: "%s",
-  ref: "%D",
-};
+/**
+ * The fields of a commit and their `git log` placeholders.
+ *
+ * Each field is separated by a NUL character, which can't be part of a commit message,
+ * so the output is safe to parse no matter what the message contains.
+ */
+const commitFormat = [
+  ["hash", "%H"],
+  ["id", "%h"],
+  ["timestamp", "%ad"],
+  ["author.name", "%an"],
+  ["author.email", "%ae"],
+  ["committer.name", "%cn"],
+  ["committer.email", "%ce"],
+  ["committer.timestamp", "%ct"],
+  ["subject", "%s"],
+  ["body", "%b"],
+  ["ref", "%D"],
+  ["parents", "%P"],
+  ["signature.status", "%G?"],
+  ["signature.signer", "%GS"],
+  ["signature.key", "%GK"],
+  ["trailers", "%(trailers:only,unfold)"],
+] as const;
+
+const branchFormat = [
+  "%(refname:short)",
+  "%(objectname)",
+  "%(upstream:short)",
+  "%(HEAD)",
+];
 
-const parameters = new Template("...options, ...{defaults}");
+const tagFormat = [
+  "%(refname:strip=2)",
+  "%(if)%(*objectname)%(then)%(*objectname)%(else)%(objectname)%(end)",
+  "%(objecttype)",
+  "%(contents:subject)",
+  "%(creatordate:unix)",
+];
+
+const stashFormat = ["%gd", "%H", "%gs"];
+
+/**
+ * A class whose instances can be called like functions.
+ *
+ * The constructor returns the given function with the prototype of the subclass, so the
+ * fields and methods of the subclass are installed on the function itself. It doesn't
+ * extend `Function`, since calling its constructor generates code, which fails when
+ * code generation from strings is disallowed.
+ */
+class Callable {
+  constructor(fn: (...args: never[]) => unknown) {
+    return Object.setPrototypeOf(fn, new.target.prototype);
+  }
+}
+
+// Keeps `call`, `apply` and `bind` on the instances.
+Object.setPrototypeOf(Callable.prototype, Function.prototype);
 
 export interface Git extends Function {
+  /**
+   * Runs Git with the given options, merged with the default ones. The options of the
+   * call take precedence, and the environment variables of both are merged.
+   */
   (options: Deno.CommandOptions): string;
 }
 
@@ -102,26 +461,53 @@ export interface Git extends Function {
  * console.assert(Array.isArray(commits) === true);
  * ```
  */
-export class Git extends Function {
+export class Git extends Callable {
   readonly cwd: string;
+  #async?: Git.Async;
   /**
    * @param options - Default options to pass to every Git command.
    */
   constructor(readonly options: GitDefaultOptions = {}) {
-    const params = parameters.render({
-      defaults: JSON.stringify(options),
-    });
-    const body = `return executeCommand('git', { ${params} });`;
-
-    super("options", body);
+    super((overrides: Deno.CommandOptions) =>
+      executeCommand("git", mergeCommandOptions(options, overrides)),
+    );
 
     if (options.cwd instanceof URL) {
-      this.cwd = options.cwd.href;
+      this.cwd = fromFileUrl(options.cwd);
     } else {
       this.cwd = options.cwd || Deno.cwd();
     }
   }
 
+  /**
+   * The asynchronous version of this instance.
+   *
+   * Every method works the same, but runs Git through `executeCommandAsync` and returns
+   * a promise, so the event loop isn't blocked while Git runs.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   * const [status, commits] = await Promise.all([git.async.status(), git.async.log()]);
+   *
+   * console.assert(typeof status.clean === "boolean");
+   * console.assert(Array.isArray(commits));
+   * ```
+   */
+  get async(): Git.Async {
+    this.#async ??= {
+      ...toAsyncCommands((command) => this.runAsync(command)),
+      cwd: this.cwd,
+      options: this.options,
+      logStream: this.logStream.bind(this),
+    };
+
+    return this.#async;
+  }
+
   /**
    * Adds files to the Git index (staging area).
    *
@@ -140,7 +526,95 @@ export class Git extends Function {
    * ```
    */
   public add(...paths: string[]) {
-    return this({ args: ["add"].concat(paths) });
+    return this.run(commands.add(...paths));
+  }
+
+  /**
+   * Adds a remote to the repository.
+   *
+   * Executes `git remote add <name> <url>`.
+   *
+   * @param name - The name of the remote, like `origin`.
+   * @param url - The URL of the remote.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   *
+   * git.addRemote("origin", "https://github.com/toridoriv/my-dev-toolkit.git");
+   * ```
+   */
+  public addRemote(name: string, url: string) {
+    return this.run(commands.addRemote(name, url));
+  }
+
+  /**
+   * Creates a new branch without switching to it.
+   *
+   * Executes `git branch <name> [<start-point>]`.
+   *
+   * @param name - The name of the new branch.
+   * @param startPoint - The commit the branch will point to. Defaults to `HEAD`.
+   * @param flags - Flags to pass to `git branch`.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   *
+   * git.branch("feature/tags");
+   * ```
+   */
+  public branch(name: string, startPoint?: string, flags: Git.BranchFlags = {}) {
+    return this.run(commands.branch(name, startPoint, flags));
+  }
+
+  /**
+   * Lists the branches of the repository.
+   *
+   * @param flags - Flags to pass to `git branch --list`.
+   * @returns The branches as {@link Branch}[].
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   * const current = git.branches().find((branch) => branch.current);
+   *
+   * console.assert(typeof current?.name === "string");
+   * ```
+   */
+  public branches(flags: Git.BranchListFlags = {}) {
+    return this.run(commands.branches(flags));
+  }
+
+  /**
+   * Checks out a branch, commit or paths.
+   *
+   * Executes `git checkout <target>`.
+   *
+   * @param target - The branch, commit or path to check out.
+   * @param flags - Flags to pass to `git checkout`.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   *
+   * git.checkout("main");
+   * ```
+   */
+  public checkout(target: string, flags: Git.CheckoutFlags = {}) {
+    return this.run(commands.checkout(target, flags));
   }
 
   /**
@@ -161,9 +635,7 @@ export class Git extends Function {
    * ```
    */
   public commit(message: string, flags: Git.CommitFlags = {}) {
-    const args = this.parseFlags(flags, true).filter(Boolean);
-
-    return this({ args: ["commit", "-m", message, ...args] });
+    return this.run(commands.commit(message, flags));
   }
 
   /**
@@ -171,6 +643,7 @@ export class Git extends Function {
    *
    * @param name - The name of the configuration setting to set.
    * @param value - The value to set, if any.
+   * @param flags - Flags to pass to `git config`, like `unset` to remove the setting.
    *
    * @example
    *
@@ -186,17 +659,17 @@ export class Git extends Function {
    * console.assert(userName === "John Doe");
    * ```
    */
-  public config(name: string, value?: string) {
-    return this({ args: ["config", name, value as string].filter(Boolean) });
+  public config(name: string, value?: string, flags: Git.ConfigFlags = {}) {
+    return this.run(commands.config(name, value, flags));
   }
 
   /**
-   * Initializes a new Git repository.
+   * Deletes one or more branches.
    *
-   * Executes the `git init` command to create a new Git repository
-   * in the current working directory.
+   * Executes `git branch --delete <names>`.
    *
-   * @param flags - Flags to pass to `git init`.
+   * @param names - The names of the branches to delete.
+   * @param flags - Flags to pass to `git branch --delete`.
    *
    * @example
    *
@@ -205,24 +678,19 @@ export class Git extends Function {
    *
    * const git = new Git();
    *
-   * // Initialize a new repo
-   * git.init();
+   * git.deleteBranch(["feature/tags"], { force: true });
    * ```
    */
-  public init(flags: Git.InitFlags = {}) {
-    const args = this.parseFlags(flags);
-
-    return this({ args: ["init", ...args] });
+  public deleteBranch(names: string[], flags: Git.DeleteBranchFlags = {}) {
+    return this.run(commands.deleteBranch(names, flags));
   }
 
   /**
-   * Gets the commit history from the Git repository.
+   * Deletes one or more tags.
    *
-   * Executes `git log` to retrieve commit data and parses the output.
+   * Executes `git tag --delete <names>`.
    *
-   * @param flags - Flags to pass to `git log` to customize output.
-   * @param revisionRange - The commit range to get logs for, e.g. "main...dev".
-   * @returns The commit history as {@link Commit}[] sorted chronologically.
+   * @param names - The names of the tags to delete.
    *
    * @example
    *
@@ -230,72 +698,829 @@ export class Git extends Function {
    * import { Git } from "./git.ts";
    *
    * const git = new Git();
-   * const commits = git.log({maxCount: "5"});
    *
-   * console.assert(typeof commits[0].subject === "string");
+   * git.deleteTag("v1.0.0");
    * ```
    */
-  public log(flags: Git.LogFlags = {}, revisionRange?: Git.LogRevisionRange) {
-    const args = this.parseFlags(flags, true);
-
-    if (revisionRange) {
-      const ranges = revisionRange.split(" ").filter(Boolean);
-
-      args.push(...ranges);
-    }
-
-    args.push(`--pretty=format:${JSON.stringify(commitFormat)}`);
-
-    const output = this({ args: ["log", ...args] });
-
-    return this.#parseLogOutput(output);
+  public deleteTag(...names: string[]) {
+    return this.run(commands.deleteTag(...names));
   }
 
-  protected parseFlag(name: string, value?: string, takesValue = false) {
-    const flagName =
-      "--" +
-      name
-        .split(/([A-Z][a-z]+)/)
-        .map(Function.prototype.call, String.prototype.toLowerCase)
-        .filter(Boolean)
-        .join("-");
-
-    if (!value) {
-      return [flagName];
-    }
-
-    if (!takesValue) {
-      return [flagName, value];
+  /**
+   * Describes a commit using the most recent tag reachable from it.
+   *
+   * Executes `git describe`.
+   *
+   * @param commit - The commit to describe. Defaults to `HEAD`.
+   * @param flags - Flags to pass to `git describe`.
+   * @returns The description as {@link Description}.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   * const { tag, distance } = git.describe(undefined, { tags: true, long: true });
+   *
+   * console.assert(typeof tag === "string");
+   * console.assert(typeof distance === "number");
+   * ```
+   */
+  public describe(commit?: string, flags: Git.DescribeFlags = {}) {
+    return this.run(commands.describe(commit, flags));
+  }
+
+  /**
+   * Gets the number of added and deleted lines per file.
+   *
+   * Executes `git diff --numstat`.
+   *
+   * @param flags - Flags to pass to `git diff`.
+   * @param revisionRange - The commits to compare, e.g. "main...dev". Defaults to the
+   *                        working tree against the index.
+   * @param paths - Limit the diff to the given paths.
+   * @returns The changes as {@link DiffStat}[].
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   * const stats = git.diff({ cached: true });
+   *
+   * console.assert(stats.every((stat) => typeof stat.path === "string"));
+   * ```
+   */
+  public diff(flags: Git.DiffFlags = {}, revisionRange?: string, ...paths: string[]) {
+    return this.run(commands.diff(flags, revisionRange, ...paths));
+  }
+
+  /**
+   * Downloads objects and refs from a remote.
+   *
+   * Executes `git fetch [<remote>]`.
+   *
+   * @param remote - The remote to fetch from. Defaults to the upstream remote.
+   * @param flags - Flags to pass to `git fetch`.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   *
+   * git.fetch("origin", { prune: true, tags: true });
+   * ```
+   */
+  public fetch(remote?: string, flags: Git.FetchFlags = {}) {
+    return this.run(commands.fetch(remote, flags));
+  }
+
+  /**
+   * Initializes a new Git repository.
+   *
+   * Executes the `git init` command to create a new Git repository
+   * in the current working directory.
+   *
+   * @param flags - Flags to pass to `git init`.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   *
+   * // Initialize a new repo
+   * git.init();
+   * ```
+   */
+  public init(flags: Git.InitFlags = {}) {
+    return this.run(commands.init(flags));
+  }
+
+  /**
+   * Gets the commit history from the Git repository.
+   *
+   * Executes `git log` to retrieve commit data and parses the output.
+   *
+   * @param flags - Flags to pass to `git log` to customize output.
+   * @param revisionRange - The commit range to get logs for, e.g. "main...dev".
+   * @returns The commit history as {@link Commit}[] sorted chronologically.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   * const commits = git.log({maxCount: "5"});
+   *
+   * console.assert(typeof commits[0].subject === "string");
+   * ```
+   */
+  public log(flags: Git.LogFlags = {}, revisionRange?: string) {
+    return this.run(commands.log(flags, revisionRange));
+  }
+
+  /**
+   * Streams the commit history from the Git repository.
+   *
+   * Works like {@link Git.log}, but yields every commit as soon as `git log` outputs it,
+   * instead of waiting for the whole history. This keeps memory usage bounded, even for
+   * repositories with hundreds of thousands of commits.
+   *
+   * @param flags - Flags to pass to `git log` to customize output.
+   * @param revisionRange - The commit range to get logs for, e.g. "main...dev".
+   * @returns An async iterator of {@link Commit}.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   * let count = 0;
+   *
+   * for await (const commit of git.logStream()) {
+   *   if (commit.parents.length > 1) count++;
+   * }
+   *
+   * console.log(`There are ${count} merge commits.`);
+   * ```
+   */
+  public async *logStream(flags: Git.LogFlags = {}, revisionRange?: string) {
+    const chunks = executeCommandStream(
+      "git",
+      mergeCommandOptions(this.options, { args: getLogArgs(flags, revisionRange) }),
+    );
+    let values: string[] = [];
+    let pending = "";
+
+    for await (const chunk of chunks) {
+      const parts = (pending + chunk).split("\0");
+
+      pending = parts.pop() as string;
+      values = values.concat(parts);
+
+      while (values.length >= commitFormat.length) {
+        yield parseCommitValues(values.splice(0, commitFormat.length));
+      }
     }
+  }
+
+  /**
+   * Updates remote refs along with their associated objects.
+   *
+   * Executes `git push [<remote>] [<refspecs>]`.
+   *
+   * @param remote - The remote to push to. Defaults to the upstream remote.
+   * @param refspecs - The refs to push, like `main` or `v1.0.0`.
+   * @param flags - Flags to pass to `git push`.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   *
+   * git.push("origin", ["main"], { followTags: true });
+   * ```
+   */
+  public push(remote?: string, refspecs: string[] = [], flags: Git.PushFlags = {}) {
+    return this.run(commands.push(remote, refspecs, flags));
+  }
+
+  /**
+   * Lists the remotes of the repository.
+   *
+   * Executes `git remote --verbose`.
+   *
+   * @returns The remotes as {@link Remote}[].
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   * const origin = git.remotes().find((remote) => remote.name === "origin");
+   *
+   * console.assert(origin === undefined || typeof origin.fetchUrl === "string");
+   * ```
+   */
+  public remotes() {
+    return this.run(commands.remotes());
+  }
+
+  /**
+   * Removes a remote from the repository.
+   *
+   * Executes `git remote remove <name>`.
+   *
+   * @param name - The name of the remote to remove.
+   */
+  public removeRemote(name: string) {
+    return this.run(commands.removeRemote(name));
+  }
+
+  /**
+   * Resolves a revision into a commit hash or ref name.
+   *
+   * Executes `git rev-parse <revision>`.
+   *
+   * @param revision - The revision to resolve, like `HEAD` or `v1.0.0`.
+   * @param flags - Flags to pass to `git rev-parse`.
+   * @returns The resolved value.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   * const branch = git.revParse("HEAD", { abbrevRef: true });
+   *
+   * console.assert(typeof branch === "string");
+   * ```
+   */
+  public revParse(revision: string, flags: Git.RevParseFlags = {}) {
+    return this.run(commands.revParse(revision, flags));
+  }
+
+  /**
+   * Stashes the changes in the working directory.
+   *
+   * Executes `git stash push`.
+   *
+   * @param flags - Flags to pass to `git stash push`.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   *
+   * git.stash({ includeUntracked: true, message: "Before release" });
+   * ```
+   */
+  public stash(flags: Git.StashFlags = {}) {
+    return this.run(commands.stash(flags));
+  }
+
+  /**
+   * Lists the stash entries.
+   *
+   * @returns The stash entries as {@link Stash}[], the most recent first.
+   */
+  public stashes() {
+    return this.run(commands.stashes());
+  }
+
+  /**
+   * Applies a stash entry and removes it from the stash list.
+   *
+   * Executes `git stash pop [<stash>]`.
+   *
+   * @param stash - The stash to apply, like `stash@{1}`. Defaults to the latest one.
+   */
+  public stashPop(stash?: string) {
+    return this.run(commands.stashPop(stash));
+  }
+
+  /**
+   * Gets the status of the working tree.
+   *
+   * Executes `git status --porcelain=v2 --branch` and parses the output.
+   *
+   * @param flags - Flags to pass to `git status`.
+   * @returns The status as {@link Status}.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   * const status = git.status();
+   *
+   * if (!status.clean) {
+   *   console.log(`There are ${status.entries.length} changed files.`);
+   * }
+   * ```
+   */
+  public status(flags: Git.StatusFlags = {}) {
+    return this.run(commands.status(flags));
+  }
+
+  /**
+   * Switches to a branch.
+   *
+   * Executes `git switch <branch>`.
+   *
+   * @param branch - The branch to switch to.
+   * @param flags - Flags to pass to `git switch`.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   *
+   * git.switch("feature/tags", { create: true });
+   * ```
+   */
+  public switch(branch: string, flags: Git.SwitchFlags = {}) {
+    return this.run(commands.switch(branch, flags));
+  }
+
+  /**
+   * Creates a tag.
+   *
+   * Executes `git tag <name> [<commit>]`. The tag is annotated when a message is given.
+   *
+   * @param name - The name of the tag.
+   * @param flags - Flags to pass to `git tag`.
+   * @param commit - The commit to tag. Defaults to `HEAD`.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   *
+   * git.tag("v1.0.0", { annotate: true, message: "Release v1.0.0" });
+   * ```
+   */
+  public tag(name: string, flags: Git.TagFlags = {}, commit?: string) {
+    return this.run(commands.tag(name, flags, commit));
+  }
+
+  /**
+   * Lists the tags of the repository.
+   *
+   * @param flags - Flags to pass to `git tag --list`.
+   * @returns The tags as {@link Tag}[].
+   *
+   * @example
+   *
+   * ```ts
+   * import { Git } from "./git.ts";
+   *
+   * const git = new Git();
+   * const tags = git.tags({ sort: "-creatordate" });
+   *
+   * console.assert(tags.every((tag) => tag.timestamp instanceof Date));
+   * ```
+   */
+  public tags(flags: Git.TagListFlags = {}) {
+    return this.run(commands.tags(flags));
+  }
+
+  /**
+   * Runs a Git command and parses its output.
+   *
+   * @param command - The arguments of the command and the parser of its output.
+   * @returns The parsed output.
+   */
+  protected run<T>({ args, parse }: Git.Command<T>) {
+    return parse(this({ args }));
+  }
+
+  /**
+   * Runs a Git command without blocking and parses its output.
+   *
+   * @param command - The arguments of the command and the parser of its output.
+   * @returns A promise of the parsed output.
+   */
+  protected async runAsync<T>({ args, parse }: Git.Command<T>) {
+    const output = await executeCommandAsync(
+      "git",
+      mergeCommandOptions(this.options, { args }),
+    );
+
+    return parse(output);
+  }
+}
+
+/**
+ * Builds the arguments of every Git command and the parser of its output, so each
+ * command runs the same way in {@link Git} and {@link Git.async}.
+ */
+const commands = {
+  add: (...paths: string[]) => command(["add"].concat(paths)),
+  addRemote: (name: string, url: string) => command(["remote", "add", name, url]),
+  branch: (name: string, startPoint?: string, flags: Git.BranchFlags = {}) => {
+    const args = parseFlags(flags);
+
+    return command(["branch", ...args, name, startPoint as string].filter(Boolean));
+  },
+  branches: (flags: Git.BranchListFlags = {}) => {
+    const args = parseFlags(flags, true);
+    const format = `--format=${branchFormat.join("%00")}`;
+
+    return command(["branch", "--list", ...args, format], (output) =>
+      parseRecords(output, BranchSchema, ["name", "hash", "upstream", "current"]),
+    );
+  },
+  checkout: (target: string, flags: Git.CheckoutFlags = {}) => {
+    const { branch, ...rest } = flags;
+    const args = parseFlags(rest);
+
+    if (branch) {
+      args.push("-b", branch);
+    }
+
+    return command(["checkout", ...args, target]);
+  },
+  commit: (message: string, flags: Git.CommitFlags = {}) => {
+    const args = parseFlags(flags, true).filter(Boolean);
+
+    return command(["commit", "-m", message, ...args]);
+  },
+  config: (name: string, value?: string, flags: Git.ConfigFlags = {}) => {
+    const args = parseFlags(flags);
+
+    return command(["config", ...args, name, value as string].filter(Boolean));
+  },
+  deleteBranch: (names: string[], flags: Git.DeleteBranchFlags = {}) => {
+    const args = parseFlags(flags);
+
+    return command(["branch", "--delete", ...args, ...names]);
+  },
+  deleteTag: (...names: string[]) => command(["tag", "--delete", ...names]),
+  describe: (commit?: string, flags: Git.DescribeFlags = {}) => {
+    const args = parseFlags(flags, true);
+
+    return command(["describe", ...args, commit as string].filter(Boolean), (output) =>
+      DescriptionSchema.parse(output),
+    );
+  },
+  diff: (flags: Git.DiffFlags = {}, revisionRange?: string, ...paths: string[]) => {
+    const args = parseFlags(flags, true);
+
+    if (revisionRange) {
+      args.push(...revisionRange.split(" ").filter(Boolean));
+    }
+
+    if (paths.length > 0) {
+      args.push("--", ...paths);
+    }
+
+    return command(["diff", "--numstat", "-z", ...args], parseDiffOutput);
+  },
+  fetch: (remote?: string, flags: Git.FetchFlags = {}) => {
+    const args = parseFlags(flags, true);
+
+    return command(["fetch", ...args, remote as string].filter(Boolean));
+  },
+  init: (flags: Git.InitFlags = {}) => {
+    const args = parseFlags(flags);
+
+    return command(["init", ...args]);
+  },
+  log: (flags: Git.LogFlags = {}, revisionRange?: string) =>
+    command(getLogArgs(flags, revisionRange), parseLogOutput),
+  push: (remote?: string, refspecs: string[] = [], flags: Git.PushFlags = {}) => {
+    const args = parseFlags(flags, true);
+
+    return command(["push", ...args, remote as string, ...refspecs].filter(Boolean));
+  },
+  remotes: () => command(["remote", "--verbose"], parseRemoteOutput),
+  removeRemote: (name: string) => command(["remote", "remove", name]),
+  revParse: (revision: string, flags: Git.RevParseFlags = {}) => {
+    const args = parseFlags(flags, true);
+
+    return command(["rev-parse", ...args, revision], (output) =>
+      TrimmedStringSchema.parse(output),
+    );
+  },
+  stash: (flags: Git.StashFlags = {}) => {
+    const args = parseFlags(flags, true);
+
+    return command(["stash", "push", ...args]);
+  },
+  stashes: () => {
+    const format = `--pretty=format:${stashFormat.join("%x00")}`;
+
+    return command(["stash", "list", format], (output) =>
+      parseRecords(output, StashSchema, ["ref", "hash", "subject"]),
+    );
+  },
+  stashPop: (stash?: string) =>
+    command(["stash", "pop", stash as string].filter(Boolean)),
+  status: (flags: Git.StatusFlags = {}) => {
+    const args = parseFlags(flags, true);
+
+    return command(
+      ["status", "--porcelain=v2", "--branch", "-z", ...args],
+      parseStatusOutput,
+    );
+  },
+  switch: (branch: string, flags: Git.SwitchFlags = {}) => {
+    const args = parseFlags(flags);
+
+    return command(["switch", ...args, branch]);
+  },
+  tag: (name: string, flags: Git.TagFlags = {}, commit?: string) => {
+    const args = parseFlags(flags, true);
+
+    return command(["tag", ...args, name, commit as string].filter(Boolean));
+  },
+  tags: (flags: Git.TagListFlags = {}) => {
+    const args = parseFlags(flags, true);
+    const format = `--format=${tagFormat.join("%00")}`;
+
+    return command(["tag", "--list", ...args, format], (output) =>
+      parseRecords(output, TagSchema, ["name", "hash", "type", "subject", "timestamp"]),
+    );
+  },
+};
+
+function command(args: string[]): Git.Command<string>;
+function command<T>(args: string[], parse: (output: string) => T): Git.Command<T>;
+function command(args: string[], parse = (output: string): unknown => output) {
+  return { args, parse };
+}
+
+function toAsyncCommands(
+  run: <T>(command: Git.Command<T>) => Promise<T>,
+): Omit<Git.Async, "cwd" | "options" | "logStream"> {
+  const asyncCommands: Record<string, unknown> = {};
+  const builders = Object.entries<(...args: never[]) => Git.Command<unknown>>(commands);
+
+  for (const [name, build] of builders) {
+    asyncCommands[name] = (...args: never[]) => run(build(...args));
+  }
+
+  // Every command is wrapped above, so the object has the keys of the mapped type.
+  return asyncCommands as Omit<Git.Async, "cwd" | "options" | "logStream">;
+}
+
+function getLogArgs(flags: Git.LogFlags, revisionRange?: string) {
+  const args = parseFlags(flags, true);
+
+  if (revisionRange) {
+    const ranges = revisionRange.split(" ").filter(Boolean);
+
+    args.push(...ranges);
+  }
+
+  args.push(`--pretty=format:${commitFormat.map(([, p]) => `${p}%x00`).join("")}`);
+
+  return ["log", ...args];
+}
+
+function parseFlag(name: string, value?: string, takesValue = false) {
+  const flagName =
+    "--" +
+    name
+      .split(/([A-Z][a-z]+)/)
+      .map(Function.prototype.call, String.prototype.toLowerCase)
+      .filter(Boolean)
+      .join("-");
+
+  if (!value) {
+    return [flagName];
+  }
+
+  if (!takesValue) {
+    return [flagName, value];
+  }
+
+  return [`${flagName}=${value}`];
+}
+
+function parseFlags(flags: Record<string, unknown>, takesValue = false) {
+  const items: string[][] = [];
 
-    return [`${flagName}=${value}`];
+  for (const flag in flags) {
+    const value = (typeof flags[flag] === "string" ? flags[flag] : undefined) as
+      | string
+      | undefined;
+
+    items.push(parseFlag(flag, value, takesValue));
   }
 
-  protected parseFlags(flags: Record<string, unknown>, takesValue = false) {
-    const items: string[][] = [];
+  return items.flat();
+}
+
+function parseRecords<S extends z.ZodTypeAny>(output: string, schema: S, keys: string[]) {
+  return output
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const values = line.split("\0");
+      const record = Object.fromEntries(keys.map((key, i) => [key, values[i] || ""]));
+
+      return schema.parse(record) as z.output<S>;
+    });
+}
+
+function parseDiffOutput(output: string) {
+  const tokens = output.split("\0");
+  const stats: DiffStat[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (!tokens[i].trim()) continue;
 
-    for (const flag in flags) {
-      const value = (typeof flags[flag] === "string" ? flags[flag] : undefined) as
-        | string
-        | undefined;
+    const [added, deleted, path] = tokens[i].split("\t");
+
+    if (path) {
+      stats.push(DiffStatSchema.parse({ added, deleted, path }));
+    } else {
+      const [originalPath, newPath] = tokens.slice(i + 1, i + 3);
 
-      items.push(this.parseFlag(flag, value, takesValue));
+      stats.push(DiffStatSchema.parse({ added, deleted, path: newPath, originalPath }));
+      i += 2;
     }
+  }
+
+  return stats;
+}
+
+function parseStatusOutput(output: string) {
+  const tokens = output.split("\0");
+  const branch: Record<string, string> = {};
+  const entries: Record<string, string>[] = [];
 
-    return items.flat();
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+
+    if (token.startsWith("# branch.ab ")) {
+      const [ahead, behind] = token.substring(12).split(" ");
+
+      branch.ahead = ahead.replace("+", "");
+      branch.behind = behind.replace("-", "");
+    } else if (token.startsWith("# branch.")) {
+      const [key, ...value] = token.substring(9).split(" ");
+
+      branch[key] = value.join(" ");
+    } else if (token.startsWith("1 ")) {
+      entries.push(parseStatusEntry("changed", token, 8));
+    } else if (token.startsWith("2 ")) {
+      entries.push({
+        ...parseStatusEntry("renamed", token, 9),
+        originalPath: tokens[++i],
+      });
+    } else if (token.startsWith("u ")) {
+      entries.push(parseStatusEntry("unmerged", token, 10));
+    } else if (token.startsWith("? ")) {
+      entries.push({
+        kind: "untracked",
+        index: "?",
+        worktree: "?",
+        path: token.substring(2),
+      });
+    } else if (token.startsWith("! ")) {
+      entries.push({
+        kind: "ignored",
+        index: "!",
+        worktree: "!",
+        path: token.substring(2),
+      });
+    }
   }
 
-  #parseLogOutput(output: string) {
-    const rawCommits = output
-      .split(`{"hash"`)
-      .filter(Boolean)
-      .map((v) => `{"hash"${v}`);
+  return StatusSchema.parse({ branch, entries });
+}
+
+function parseLogOutput(output: string) {
+  const values = output.split("\0");
+  const commits: Commit[] = [];
+
+  for (let i = 0; i + commitFormat.length <= values.length; i += commitFormat.length) {
+    commits.push(parseCommitValues(values.slice(i, i + commitFormat.length)));
+  }
+
+  return commits;
+}
+
+function parseCommitValues(values: string[]) {
+  const raw: Record<string, Record<string, string> | string> = {};
+
+  commitFormat.forEach(([path], i) => {
+    const [key, subkey] = path.split(".");
+
+    if (subkey) {
+      raw[key] = { ...(raw[key] as Record<string, string>), [subkey]: values[i] };
+    } else {
+      raw[key] = values[i];
+    }
+  });
 
-    return rawCommits.map((c) => CommitSchema.parse(JSON.parse(c)));
+  return CommitSchema.parse(raw);
+}
+
+function parseRemoteOutput(output: string) {
+  const remotes: Record<string, Record<string, string>> = {};
+
+  for (const line of output.split("\n").filter(Boolean)) {
+    const [name, url, type] = line.split(/\s+/);
+
+    remotes[name] ??= { name };
+    remotes[name][type === "(push)" ? "pushUrl" : "fetchUrl"] = url;
   }
+
+  return Object.values(remotes).map((remote) => RemoteSchema.parse(remote));
 }
 
 export namespace Git {
+  /**
+   * The asynchronous version of every {@link Git} method.
+   */
+  export type Async = {
+    [K in keyof Commands]: (
+      ...args: Parameters<Commands[K]>
+    ) => Promise<ReturnType<ReturnType<Commands[K]>["parse"]>>;
+  } & Pick<Git, "cwd" | "options" | "logStream">;
+
+  /**
+   * The arguments of a Git command and the parser of its output.
+   */
+  export type Command<T> = {
+    args: string[];
+    parse: (output: string) => T;
+  };
+
+  /**
+   * @ignore
+   */
+  type Commands = typeof commands;
+
+  /**
+   * Options for creating a branch.
+   */
+  export type BranchFlags = {
+    /**
+     * Reset the branch to the start point, even if it already exists.
+     */
+    force?: true;
+    /**
+     * Do not set up the upstream configuration, even if the start point is a remote branch.
+     */
+    noTrack?: true;
+    /**
+     * Set up the start point as the upstream of the new branch.
+     */
+    track?: true;
+  };
+
+  /**
+   * Options for listing branches.
+   */
+  export type BranchListFlags = {
+    /**
+     * List both local and remote-tracking branches.
+     */
+    all?: true;
+    /**
+     * Only list branches which contain the specified commit.
+     */
+    contains?: string;
+    /**
+     * Only list branches whose tips are reachable from the specified commit.
+     */
+    merged?: string;
+    /**
+     * Only list branches whose tips are not reachable from the specified commit.
+     */
+    noMerged?: string;
+    /**
+     * List only the remote-tracking branches.
+     */
+    remotes?: true;
+    /**
+     * Sort based on the given key, like `-committerdate`.
+     */
+    sort?: string;
+  };
+
+  /**
+   * Options for checking out a branch, commit or paths.
+   */
+  export type CheckoutFlags = {
+    /**
+     * Create a new branch with the given name and start it at the target.
+     */
+    branch?: string;
+    /**
+     * Check out a commit for inspection, detaching HEAD.
+     */
+    detach?: true;
+    /**
+     * Throw away local changes when switching branches.
+     */
+    force?: true;
+  };
+
   /**
    * Options for committing a change to a Git repository.
    */
@@ -306,6 +1531,141 @@ export namespace Git {
     date?: string;
   };
 
+  /**
+   * Options for reading or writing a Git configuration value.
+   */
+  export type ConfigFlags = {
+    /**
+     * Use the global configuration file instead of the repository one.
+     */
+    global?: true;
+    /**
+     * Use the repository configuration file. This is the default when writing.
+     */
+    local?: true;
+    /**
+     * Remove the setting instead of reading or writing it.
+     */
+    unset?: true;
+  };
+
+  /**
+   * Options for deleting branches.
+   */
+  export type DeleteBranchFlags = {
+    /**
+     * Delete the branch even if it hasn't been merged.
+     */
+    force?: true;
+    /**
+     * Delete remote-tracking branches.
+     */
+    remotes?: true;
+  };
+
+  /**
+   * Options for describing a commit.
+   */
+  export type DescribeFlags = {
+    /**
+     * Use the given number of hexadecimal digits for the abbreviated hash.
+     */
+    abbrev?: `${number}`;
+    /**
+     * Use any ref found in `refs/`, not only annotated tags.
+     */
+    all?: true;
+    /**
+     * Show the abbreviated commit hash as fallback when no tag is found.
+     */
+    always?: true;
+    /**
+     * Append the given mark if the working tree has local changes.
+     */
+    dirty?: true | string;
+    /**
+     * Only output exact matches, meaning a tag directly references the commit.
+     */
+    exactMatch?: true;
+    /**
+     * Do not consider tags matching the given glob pattern.
+     */
+    exclude?: string;
+    /**
+     * Always output the long format, even when the commit matches a tag.
+     */
+    long?: true;
+    /**
+     * Only consider tags matching the given glob pattern, like `v*`.
+     */
+    match?: string;
+    /**
+     * Use any tag found in `refs/tags`, including lightweight ones.
+     */
+    tags?: true;
+  };
+
+  /**
+   * Options for customizing the output of `git diff --numstat`.
+   */
+  export type DiffFlags = {
+    /**
+     * Compare the staged changes against `HEAD`.
+     */
+    cached?: true;
+    /**
+     * Select only files that are added (`A`), copied (`C`), deleted (`D`), modified (`M`) or
+     * renamed (`R`), among others.
+     */
+    diffFilter?: string;
+    /**
+     * Detect renames.
+     */
+    findRenames?: true;
+    /**
+     * Ignore whitespace when comparing lines.
+     */
+    ignoreAllSpace?: true;
+    /**
+     * Use the merge base of the given commit and `HEAD` instead.
+     */
+    mergeBase?: true;
+  };
+
+  /**
+   * Options for fetching from a remote.
+   */
+  export type FetchFlags = {
+    /**
+     * Fetch all remotes.
+     */
+    all?: true;
+    /**
+     * Limit fetching to the specified number of commits from the tip of each branch.
+     */
+    depth?: `${number}`;
+    /**
+     * Update local refs even if the update isn't a fast-forward.
+     */
+    force?: true;
+    /**
+     * Remove remote-tracking references that no longer exist on the remote.
+     */
+    prune?: true;
+    /**
+     * Remove local tags that no longer exist on the remote.
+     */
+    pruneTags?: true;
+    /**
+     * Fetch all tags from the remote.
+     */
+    tags?: true;
+    /**
+     * Convert a shallow repository to a complete one.
+     */
+    unshallow?: true;
+  };
+
   /**
    * Options for initializing a Git repository.
    */
@@ -374,13 +1734,172 @@ export namespace Git {
   };
 
   /**
-   * Defines the valid revision ranges that can be passed to `git log`.
-   * A revision range specifies the set of commits to include in the log output.
-   * This can be a single commit reference, two commit references separated by a space,
-   * or two commit references separated by ^ or ... indicating ancestry or a commit range.
+   * Options for pushing to a remote.
+   */
+  export type PushFlags = {
+    /**
+     * Either all refs are updated, or none.
+     */
+    atomic?: true;
+    /**
+     * Delete the given refs from the remote.
+     */
+    delete?: true;
+    /**
+     * Do everything except actually send the updates.
+     */
+    dryRun?: true;
+    /**
+     * Push the annotated tags reachable from the pushed refs too.
+     */
+    followTags?: true;
+    /**
+     * Update the remote refs even if the update isn't a fast-forward.
+     */
+    force?: true;
+    /**
+     * Like `force`, but only if the remote ref is still the expected one.
+     */
+    forceWithLease?: true | string;
+    /**
+     * Skip the `pre-push` hook.
+     */
+    noVerify?: true;
+    /**
+     * Set the pushed branch as the upstream of the local one.
+     */
+    setUpstream?: true;
+    /**
+     * Push all tags.
+     */
+    tags?: true;
+  };
+
+  /**
+   * Options for resolving a revision.
+   */
+  export type RevParseFlags = {
+    /**
+     * Output the short name of the ref, like `main` for `HEAD`.
+     */
+    abbrevRef?: true;
+    /**
+     * Output an abbreviated hash, optionally with the given length.
+     */
+    short?: true | `${number}`;
+    /**
+     * Output the full ref name, like `refs/heads/main`.
+     */
+    symbolicFullName?: true;
+    /**
+     * Verify that exactly one parameter is given and that it can be resolved.
+     */
+    verify?: true;
+  };
+
+  /**
+   * Options for stashing changes.
+   */
+  export type StashFlags = {
+    /**
+     * Also stash ignored and untracked files.
+     */
+    all?: true;
+    /**
+     * Also stash untracked files.
+     */
+    includeUntracked?: true;
+    /**
+     * Keep the changes already added to the index.
+     */
+    keepIndex?: true;
+    /**
+     * The description of the stash entry.
+     */
+    message?: string;
+    /**
+     * Stash only the staged changes.
+     */
+    staged?: true;
+  };
+
+  /**
+   * Options for customizing the output of `git status`.
+   */
+  export type StatusFlags = {
+    /**
+     * How ignored files are shown.
+     */
+    ignored?: "traditional" | "no" | "matching";
+    /**
+     * How untracked files are shown.
+     */
+    untrackedFiles?: "no" | "normal" | "all";
+  };
+
+  /**
+   * Options for switching branches.
+   */
+  export type SwitchFlags = {
+    /**
+     * Create the branch before switching to it.
+     */
+    create?: true;
+    /**
+     * Switch to a commit for inspection, detaching HEAD.
+     */
+    detach?: true;
+    /**
+     * Throw away local changes when switching branches.
+     */
+    discardChanges?: true;
+    /**
+     * Create the branch before switching to it, resetting it if it already exists.
+     */
+    forceCreate?: true;
+  };
+
+  /**
+   * Options for creating a tag.
+   */
+  export type TagFlags = {
+    /**
+     * Create an unsigned, annotated tag.
+     */
+    annotate?: true;
+    /**
+     * Replace an existing tag with the given name.
+     */
+    force?: true;
+    /**
+     * The tag message. Implies `annotate`.
+     */
+    message?: string;
+    /**
+     * Create a GPG-signed tag.
+     */
+    sign?: true;
+  };
+
+  /**
+   * Options for listing tags.
    */
-  export type LogRevisionRange =
-    | `${string} ${string}`
-    | `${string} ^${string}`
-    | `${string}...${string}`;
+  export type TagListFlags = {
+    /**
+     * Only list tags which contain the specified commit.
+     */
+    contains?: string;
+    /**
+     * Only list tags whose commits are reachable from the specified commit.
+     */
+    merged?: string;
+    /**
+     * Only list tags of the given object.
+     */
+    pointsAt?: string;
+    /**
+     * Sort based on the given key, like `-creatordate` or `version:refname`.
+     */
+    sort?: string;
+  };
 }
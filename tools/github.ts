@@ -0,0 +1,44 @@
+/**
+ * Formats workflow outputs using the multiline-safe syntax of the `GITHUB_OUTPUT` file.
+ *
+ * Every value is wrapped in a heredoc with a random delimiter, so values containing new
+ * lines (or even the delimiter of a previous output) are read as a whole.
+ *
+ * @param outputs - The outputs to format, by name.
+ * @param delimiter - The heredoc delimiter. A random one is generated by default.
+ * @returns The formatted outputs, ready to be appended to the `GITHUB_OUTPUT` file.
+ *
+ * @see {@link [Workflow commands](https://docs.github.com/en/actions/using-workflows/workflow-commands-for-github-actions#multiline-strings)}
+ *
+ * @example
+ *
+ * ```ts
+ * import { formatGithubOutputs } from "./github.ts";
+ *
+ * const formatted = formatGithubOutputs({ version: "1.2.0" }, "EOF");
+ *
+ * console.assert(formatted === "version<<EOF\n1.2.0\nEOF\n");
+ * ```
+ */
+export function formatGithubOutputs(
+  outputs: Record<string, string>,
+  delimiter = `ghadelimiter_${crypto.randomUUID()}`,
+) {
+  let formatted = "";
+
+  for (const name in outputs) {
+    formatted += `${name}<<${delimiter}\n${outputs[name]}\n${delimiter}\n`;
+  }
+
+  return formatted;
+}
+
+/**
+ * Appends workflow outputs to the `GITHUB_OUTPUT` file.
+ *
+ * @param path - The path to the `GITHUB_OUTPUT` file.
+ * @param outputs - The outputs to append, by name.
+ */
+export function appendGithubOutputs(path: string, outputs: Record<string, string>) {
+  Deno.writeTextFileSync(path, formatGithubOutputs(outputs), { append: true });
+}
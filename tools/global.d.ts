@@ -1,3 +1,4 @@
+import type { Logger } from "./logger.ts";
 import { CallSite, SafeAny } from "./typings.mjs";
 
 export {};
@@ -7,4 +8,9 @@ declare global {
     // @ts-ignore: ¯\_(ツ)_/¯
     prepareStackTrace: (error: Error, callsites: CallSite[]) => SafeAny;
   }
+
+  /**
+   * Global logger instance available to any command.
+   */
+  var logger: Logger;
 }
@@ -0,0 +1,114 @@
+import { z } from "./deps.ts";
+
+/**
+ * The Git hooks that can be managed by the toolkit.
+ */
+export const HOOK_NAMES = ["pre-commit", "commit-msg", "pre-push"] as const;
+
+/**
+ * The first line after the shebang of every hook installed by the toolkit. Used to tell
+ * them apart from hooks written by hand.
+ */
+export const HOOK_SCRIPT_MARKER =
+  "# Managed by toolkit hooks. Changes will be overwritten.";
+
+/**
+ * Defines the schema for the `toolkit.hooks` section of a `deno.json` file.
+ *
+ * @example
+ *
+ * ```json
+ * {
+ *   "toolkit": {
+ *     "hooks": {
+ *       "directory": ".githooks",
+ *       "commands": {
+ *         "commit-msg": "lint-commit --file"
+ *       }
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export const HooksConfigSchema = z.object({
+  /**
+   * The directory where the hooks are written, relative to the root of the repository.
+   * It's set as `core.hooksPath`.
+   */
+  directory: z.string().min(1).default(".githooks"),
+  /**
+   * The executable used to run the toolkit subcommands.
+   */
+  runner: z.string().min(1).default("toolkit"),
+  /**
+   * The toolkit subcommand (and its flags) to run for each hook. The arguments Git passes
+   * to the hook are appended to it.
+   */
+  commands: z.record(z.enum(HOOK_NAMES), z.string().trim().min(1)).default({}),
+});
+
+/**
+ * The HooksConfig type, which represents the parsed `toolkit.hooks` section.
+ */
+export type HooksConfig = z.TypeOf<typeof HooksConfigSchema>;
+
+/**
+ * The HookName type, which represents the name of a managed Git hook.
+ */
+export type HookName = (typeof HOOK_NAMES)[number];
+
+/**
+ * Reads the hooks configuration from the content of a `deno.json` file.
+ *
+ * @param content - The content of the `deno.json` file.
+ * @returns The parsed configuration, with defaults for anything missing.
+ *
+ * @example
+ *
+ * ```ts
+ * import { getHooksConfig } from "./hooks.ts";
+ *
+ * const config = getHooksConfig(`{ "toolkit": { "hooks": { "commands": { "pre-push": "test" } } } }`);
+ *
+ * console.assert(config.directory === ".githooks");
+ * console.assert(config.commands["pre-push"] === "test");
+ * ```
+ */
+export function getHooksConfig(content: string) {
+  const json = JSON.parse(content || "{}");
+
+  return HooksConfigSchema.parse(json.toolkit?.hooks || {});
+}
+
+/**
+ * Renders the shell script of a hook that delegates to a toolkit subcommand.
+ *
+ * @param runner - The executable used to run the toolkit subcommands.
+ * @param command - The subcommand to run, including its flags.
+ * @returns The content of the hook script.
+ *
+ * @example
+ *
+ * ```ts
+ * import { renderHookScript } from "./hooks.ts";
+ *
+ * const script = renderHookScript("toolkit", "lint-commit --file");
+ *
+ * console.assert(script.endsWith(`exec toolkit lint-commit --file "$@"\n`));
+ * ```
+ */
+export function renderHookScript(runner: string, command: string) {
+  const lines = ["#!/bin/sh", HOOK_SCRIPT_MARKER, `exec ${runner} ${command} "$@"`];
+
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Checks if the content of a hook script was written by the toolkit.
+ *
+ * @param content - The content of the hook script.
+ * @returns `true` if the hook is managed by the toolkit.
+ */
+export function isManagedHook(content: string) {
+  return content.split("\n", 2)[1] === HOOK_SCRIPT_MARKER;
+}
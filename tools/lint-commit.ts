@@ -0,0 +1,334 @@
+// deno-lint-ignore-file no-namespace
+import { CategoryByCommitType } from "./changelog.ts";
+import { parseCommitMessage, type ParsedCommitMessage } from "./commits.ts";
+import { z } from "./deps.ts";
+import { emojiCodeToChar, isEmojiChar, isEmojiCode } from "./emoji.ts";
+
+/**
+ * The verbs commit subjects usually start with. Their past tense, gerund and third person
+ * forms are flagged by the `subject-imperative` rule.
+ */
+const IMPERATIVE_VERBS = [
+  "add",
+  "adjust",
+  "allow",
+  "apply",
+  "avoid",
+  "bump",
+  "call",
+  "change",
+  "check",
+  "clean",
+  "configure",
+  "convert",
+  "copy",
+  "correct",
+  "create",
+  "delete",
+  "deprecate",
+  "detect",
+  "disable",
+  "document",
+  "drop",
+  "enable",
+  "ensure",
+  "export",
+  "extract",
+  "fix",
+  "format",
+  "generate",
+  "handle",
+  "ignore",
+  "implement",
+  "import",
+  "improve",
+  "include",
+  "initialize",
+  "install",
+  "introduce",
+  "keep",
+  "limit",
+  "load",
+  "log",
+  "merge",
+  "migrate",
+  "move",
+  "optimize",
+  "parse",
+  "pass",
+  "prevent",
+  "print",
+  "process",
+  "read",
+  "refactor",
+  "reduce",
+  "release",
+  "remove",
+  "rename",
+  "reorder",
+  "replace",
+  "require",
+  "resolve",
+  "restore",
+  "return",
+  "revert",
+  "run",
+  "save",
+  "show",
+  "simplify",
+  "skip",
+  "sort",
+  "split",
+  "start",
+  "stop",
+  "store",
+  "support",
+  "switch",
+  "test",
+  "trim",
+  "tweak",
+  "update",
+  "upgrade",
+  "use",
+  "validate",
+  "write",
+];
+
+/**
+ * The words that aren't in the imperative mood, like "added", "adding" or "adds".
+ */
+const NON_IMPERATIVE_WORDS = new Set([
+  ...IMPERATIVE_VERBS.flatMap(getVerbForms),
+  "began",
+  "broke",
+  "brought",
+  "built",
+  "chose",
+  "got",
+  "kept",
+  "made",
+  "ran",
+  "rewrote",
+  "sent",
+  "took",
+  "went",
+  "wrote",
+  "written",
+]);
+
+/**
+ * The severities a rule can be configured with. Rules set to `off` aren't checked.
+ */
+export const RuleSeverity = {
+  Error: "error",
+  Warning: "warning",
+  Off: "off",
+} as const;
+
+export type RuleSeverity = (typeof RuleSeverity)[keyof typeof RuleSeverity];
+
+const RuleSeveritySchema = z.nativeEnum(RuleSeverity);
+
+/**
+ * Defines the schema for the `toolkit.lintCommit` section of a `deno.json` file.
+ *
+ * @example
+ *
+ * ```json
+ * {
+ *   "toolkit": {
+ *     "lintCommit": {
+ *       "types": ["feat", "fix", ":sparkles:", ":bug:"],
+ *       "maxSubjectLength": 50,
+ *       "rules": { "scope-required": "warning" }
+ *     }
+ *   }
+ * }
+ * ```
+ */
+export const LintCommitConfigSchema = z.object({
+  /**
+   * The allowed Conventional Commit types and gitmoji codes. When empty, any type known
+   * by the changelog and any valid gitmoji code is allowed.
+   */
+  types: z.array(z.string()).default([]),
+  /**
+   * The maximum length of the subject line.
+   */
+  maxSubjectLength: z.number().int().positive().default(72),
+  /**
+   * The severity of each rule.
+   */
+  rules: z
+    .object({
+      "type-enum": RuleSeveritySchema.default(RuleSeverity.Error),
+      "subject-max-length": RuleSeveritySchema.default(RuleSeverity.Error),
+      "subject-imperative": RuleSeveritySchema.default(RuleSeverity.Warning),
+      "subject-no-trailing-period": RuleSeveritySchema.default(RuleSeverity.Error),
+      "scope-required": RuleSeveritySchema.default(RuleSeverity.Off),
+    })
+    .default({}),
+});
+
+/**
+ * The LintCommitConfig type, which represents the parsed `toolkit.lintCommit` section.
+ */
+export type LintCommitConfig = z.TypeOf<typeof LintCommitConfigSchema>;
+
+const rules: Record<LintCommit.RuleName, LintCommit.Rule> = {
+  "type-enum"(header, config) {
+    if (!header.type) {
+      return "The subject must start with a type, like `feat:` or `:sparkles:`.";
+    }
+
+    if (config.types.length > 0) {
+      return config.types.includes(header.type)
+        ? null
+        : `The type ${header.type} isn't one of ${config.types.join(", ")}.`;
+    }
+
+    if (isEmojiCode(header.type)) {
+      return isEmojiChar(emojiCodeToChar(header.type))
+        ? null
+        : `The type ${header.type} isn't a valid gitmoji code.`;
+    }
+
+    return header.type in CategoryByCommitType
+      ? null
+      : `The type ${header.type} isn't a known Conventional Commit type.`;
+  },
+  "subject-max-length"(header, config) {
+    return header.subject.length > config.maxSubjectLength
+      ? `The subject has ${header.subject.length} characters, the maximum is ${config.maxSubjectLength}.`
+      : null;
+  },
+  "subject-imperative"(header) {
+    const [word = ""] = header.description.split(" ");
+
+    return NON_IMPERATIVE_WORDS.has(word.toLowerCase())
+      ? `The description should use the imperative mood, like "add" instead of "${word}".`
+      : null;
+  },
+  "subject-no-trailing-period"(header) {
+    return header.description.endsWith(".")
+      ? "The subject must not end with a period."
+      : null;
+  },
+  "scope-required"(header) {
+    return header.scope ? null : "The subject must have a scope, like `feat(git):`.";
+  },
+};
+
+/**
+ * Gets the configuration of the commit linter from the content of a `deno.json` file.
+ *
+ * @param content - The content of the `deno.json` file.
+ * @returns The parsed configuration, with defaults for anything missing.
+ */
+export function getLintCommitConfig(content: string) {
+  const json = JSON.parse(content || "{}");
+
+  return LintCommitConfigSchema.parse(json.toolkit?.lintCommit || {});
+}
+
+/**
+ * Checks a commit message against the enabled rules.
+ *
+ * Comment lines (starting with `#`), like the ones Git adds to the message file of the
+ * `commit-msg` hook, are ignored.
+ *
+ * @param message - The commit message.
+ * @param config - The linter configuration.
+ * @returns The problems found, in the order the rules are defined.
+ *
+ * @example
+ *
+ * ```ts
+ * import { getLintCommitConfig, lintCommitMessage } from "./lint-commit.ts";
+ *
+ * const config = getLintCommitConfig("{}");
+ * const problems = lintCommitMessage("feat: added a linter.", config);
+ *
+ * console.assert(problems.length === 2);
+ * console.assert(problems[0].rule === "subject-imperative");
+ * console.assert(problems[0].severity === "warning");
+ * ```
+ */
+export function lintCommitMessage(message: string, config: LintCommitConfig) {
+  const header = parseCommitMessage(stripCommentLines(message));
+  const problems: LintCommit.Problem[] = [];
+
+  for (const name in rules) {
+    const rule = name as LintCommit.RuleName;
+    const severity = config.rules[rule];
+
+    if (severity === RuleSeverity.Off) continue;
+
+    const problem = rules[rule](header, config);
+
+    if (problem) {
+      problems.push({ rule, severity, message: problem });
+    }
+  }
+
+  return problems;
+}
+
+export namespace LintCommit {
+  /**
+   * The name of a rule, as used in the configuration.
+   */
+  export type RuleName = keyof LintCommitConfig["rules"];
+
+  /**
+   * A function that checks a commit header, returning a description of the problem or
+   * `null` when the commit follows the rule.
+   */
+  export type Rule = (
+    header: ParsedCommitMessage.Header,
+    config: LintCommitConfig,
+  ) => string | null;
+
+  /**
+   * A rule a commit message doesn't follow.
+   */
+  export type Problem = {
+    /**
+     * The name of the broken rule.
+     */
+    rule: RuleName;
+    /**
+     * The configured severity of the rule.
+     */
+    severity: Exclude<RuleSeverity, "off">;
+    /**
+     * A human readable description of the problem.
+     */
+    message: string;
+  };
+}
+
+function stripCommentLines(message: string) {
+  return message
+    .split("\n")
+    .filter((line) => !line.startsWith("#"))
+    .join("\n");
+}
+
+/**
+ * Gets the past tense, gerund and third person forms of a regular verb. The doubled final
+ * consonant, like in "dropped", is added to every verb, since the extra forms don't match
+ * real words.
+ */
+function getVerbForms(verb: string) {
+  const stem = verb.replace(/e$/, "");
+  const doubled = verb + verb.slice(-1);
+  const thirdPerson = /(?:s|x|z|ch|sh)$/.test(verb)
+    ? `${verb}es`
+    : /[^aeiou]y$/.test(verb)
+    ? `${verb.slice(0, -1)}ies`
+    : `${verb}s`;
+  const past = /[^aeiou]y$/.test(verb) ? `${verb.slice(0, -1)}ied` : `${stem}ed`;
+
+  return [thirdPerson, past, `${stem}ing`, `${doubled}ed`, `${doubled}ing`];
+}
@@ -0,0 +1,248 @@
+// deno-lint-ignore-file no-namespace
+import { type Logger, type LogObject, runInLogScope } from "./logger.ts";
+
+const TRACEPARENT_REGEX = /^[\da-f]{2}-([\da-f]{32})-[\da-f]{16}-[\da-f]{2}$/;
+
+/**
+ * Adapts a Fetch API `Request` to the request object expected by `logger.http()`.
+ *
+ * @param request - The incoming request.
+ * @param id - The id of the request.
+ * @returns The request object for `logger.http()`.
+ */
+export function toLogRequest(request: Request, id?: string): LogObject.Request {
+  const url = new URL(request.url);
+
+  return {
+    id,
+    method: request.method,
+    originalUrl: url.pathname + url.search,
+    get: (name) => request.headers.get(name) ?? undefined,
+  };
+}
+
+/**
+ * Adapts a Fetch API `Response` to the response object expected by `logger.http()`.
+ *
+ * @param response - The outgoing response.
+ * @param duration - How long the request took, in milliseconds.
+ * @returns The response object for `logger.http()`.
+ */
+export function toLogResponse(response: Response, duration: number): LogObject.Response {
+  return {
+    duration,
+    statusCode: response.status,
+    get: (name) => response.headers.get(name) ?? undefined,
+  };
+}
+
+/**
+ * Wraps a `Deno.serve` handler to log every request with `logger.http()`.
+ *
+ * Each request runs inside a logging scope with its id (taken from the request id header
+ * or generated) and the trace id of the `traceparent` header, so every log written by the
+ * handler can be correlated. If the handler throws, the error is logged with
+ * `logger.error()` and a `500` response is returned.
+ *
+ * @param handler - The handler to wrap.
+ * @param options - The logger to use and the name of the request id header.
+ * @returns The wrapped handler.
+ *
+ * @example
+ *
+ * ```ts
+ * import { withHttpLogging } from "./logger-middleware.ts";
+ *
+ * Deno.serve(withHttpLogging(() => new Response("Hello!")));
+ * ```
+ */
+export function withHttpLogging(
+  handler: Deno.ServeHandler,
+  options: HttpLogging.Options = {},
+): Deno.ServeHandler {
+  return (request, info) => {
+    const { requestId, traceId } = getRequestIds(request.headers, options);
+    const start = performance.now();
+
+    return runInLogScope({ requestId, traceId }, async () => {
+      const logger = getLogger(options);
+      let response: Response;
+
+      try {
+        response = await handler(request, info);
+      } catch (error) {
+        logger.error(`Unhandled error in ${request.method} ${request.url}`, error);
+        response = new Response("Internal Server Error", { status: 500 });
+      }
+
+      logger.http(
+        toLogRequest(request, requestId),
+        toLogResponse(response, performance.now() - start),
+      );
+      setHeader(response.headers, getRequestIdHeader(options), requestId);
+
+      return response;
+    });
+  };
+}
+
+/**
+ * Creates an Oak middleware that logs every request with `logger.http()`.
+ *
+ * Errors thrown by the next middlewares are logged with `logger.error()` and thrown again,
+ * so the error handling of the application still applies.
+ *
+ * @param options - The logger to use and the name of the request id header.
+ * @returns The middleware.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Application } from "https://deno.land/x/oak/mod.ts";
+ * import { createOakLoggingMiddleware } from "./logger-middleware.ts";
+ *
+ * const app = new Application();
+ *
+ * app.use(createOakLoggingMiddleware());
+ * ```
+ */
+export function createOakLoggingMiddleware(options: HttpLogging.Options = {}) {
+  return (context: HttpLogging.OakContext, next: () => Promise<unknown>) => {
+    const { request, response } = context;
+    const { requestId, traceId } = getRequestIds(request.headers, options);
+    const start = performance.now();
+
+    return runInLogScope({ requestId, traceId }, async () => {
+      const logger = getLogger(options);
+      let status: number | undefined;
+
+      try {
+        await next();
+      } catch (error) {
+        status = 500;
+        logger.error(`Unhandled error in ${request.method} ${request.url}`, error);
+        throw error;
+      } finally {
+        logger.http(
+          {
+            id: requestId,
+            method: request.method,
+            originalUrl: request.url.pathname + request.url.search,
+            get: (name) => request.headers.get(name) ?? undefined,
+          },
+          {
+            duration: performance.now() - start,
+            statusCode: status || response.status,
+            get: (name) => response.headers.get(name) ?? undefined,
+          },
+        );
+        setHeader(response.headers, getRequestIdHeader(options), requestId);
+      }
+    });
+  };
+}
+
+/**
+ * Creates a Hono middleware that logs every request with `logger.http()`.
+ *
+ * Hono catches the errors of the handlers, so the error is read from `context.error` and
+ * logged with `logger.error()`.
+ *
+ * @param options - The logger to use and the name of the request id header.
+ * @returns The middleware.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Hono } from "https://deno.land/x/hono/mod.ts";
+ * import { createHonoLoggingMiddleware } from "./logger-middleware.ts";
+ *
+ * const app = new Hono();
+ *
+ * app.use("*", createHonoLoggingMiddleware());
+ * ```
+ */
+export function createHonoLoggingMiddleware(options: HttpLogging.Options = {}) {
+  return (context: HttpLogging.HonoContext, next: () => Promise<void>) => {
+    const request = context.req.raw;
+    const { requestId, traceId } = getRequestIds(request.headers, options);
+    const start = performance.now();
+
+    return runInLogScope({ requestId, traceId }, async () => {
+      const logger = getLogger(options);
+
+      await next();
+
+      if (context.error) {
+        logger.error(
+          `Unhandled error in ${request.method} ${request.url}`,
+          context.error,
+        );
+      }
+
+      logger.http(
+        toLogRequest(request, requestId),
+        toLogResponse(context.res, performance.now() - start),
+      );
+      setHeader(context.res.headers, getRequestIdHeader(options), requestId);
+    });
+  };
+}
+
+export namespace HttpLogging {
+  /**
+   * Options for the HTTP logging middlewares.
+   */
+  export type Options = {
+    /**
+     * The logger to use. Defaults to the global logger.
+     */
+    logger?: Logger;
+    /**
+     * The header that holds the request id. A new id is generated when the request
+     * doesn't have it, and it's added to the response.
+     */
+    requestIdHeader?: string;
+  };
+
+  /**
+   * The parts of an Oak context used by the middleware.
+   */
+  export type OakContext = {
+    request: { method: string; url: URL; headers: Headers };
+    response: { status: number; headers: Headers };
+  };
+
+  /**
+   * The parts of a Hono context used by the middleware.
+   */
+  export type HonoContext = {
+    req: { raw: Request };
+    res: Response;
+    error?: Error;
+  };
+}
+
+function getLogger(options: HttpLogging.Options) {
+  return options.logger || globalThis.logger;
+}
+
+function getRequestIdHeader(options: HttpLogging.Options) {
+  return options.requestIdHeader || "x-request-id";
+}
+
+function getRequestIds(headers: Headers, options: HttpLogging.Options) {
+  const requestId = headers.get(getRequestIdHeader(options)) || crypto.randomUUID();
+  const traceparent = headers.get("traceparent") || "";
+  const traceId = traceparent.match(TRACEPARENT_REGEX)?.[1];
+
+  return { requestId, traceId };
+}
+
+function setHeader(headers: Headers, name: string, value: string) {
+  try {
+    headers.set(name, value);
+  } catch {
+    // The headers are immutable, like the ones of a `Response.redirect()`.
+  }
+}
@@ -0,0 +1,394 @@
+// deno-lint-ignore-file no-namespace
+import { type LogObject, toSerializable } from "./logger.ts";
+import { stringifyErrorNode } from "./logger-stack.ts";
+import type { Transport } from "./logger-transports.ts";
+
+const TRACE_ID_REGEX = /^[\da-f]{32}$/;
+const SPAN_ID_REGEX = /^[\da-f]{16}$/;
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+
+/**
+ * The OpenTelemetry severity number of each default level.
+ */
+export const OtlpSeverityNumber: Record<string, number> = {
+  TRACE: 1,
+  DEBUG: 5,
+  INFO: 9,
+  HTTP: 9,
+  WARN: 13,
+  ERROR: 17,
+  FATAL: 21,
+};
+
+/**
+ * The log object fields that are resource attributes, with their OpenTelemetry name.
+ */
+const ResourceAttributeName: Record<string, string> = {
+  "service.name": "service.name",
+  "service.version": "service.version",
+  "service.environment": "deployment.environment",
+  "service.id": "service.instance.id",
+};
+
+/**
+ * The log object fields whose OpenTelemetry name is different.
+ */
+const LogAttributeName: Record<string, string> = {
+  "error.type": "exception.type",
+  "error.message": "exception.message",
+  "error.stack_trace": "exception.stacktrace",
+  "http.version": "network.protocol.version",
+  "log.origin.file.path": "code.filepath",
+  "log.origin.file.line": "code.lineno",
+  "log.origin.file.column": "code.column",
+};
+
+/**
+ * The log object fields that aren't attributes, because they have their own place in the
+ * log record or aren't useful.
+ */
+const IGNORED_FIELDS = [
+  "@timestamp",
+  "ecs.version",
+  "log.level",
+  "log.origin.file.name",
+  "message",
+  "labels",
+  "tags",
+  "data",
+  "error.cause",
+  "error.errors",
+  "trace.id",
+  "span.id",
+  "process.args",
+];
+
+/**
+ * Sends logs to an OpenTelemetry collector, using the OTLP/HTTP protocol with JSON
+ * encoding.
+ *
+ * Logs are buffered and sent in batches, when the batch is full or every `flushInterval`
+ * milliseconds. Requests that fail because of the network or a temporary error of the
+ * collector (429, 502, 503 and 504) are retried with an exponential backoff.
+ *
+ * Call `logger.close()` before the process exits, so the last batch is sent.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Logger } from "./logger.ts";
+ * import { OtlpTransport } from "./logger-otlp.ts";
+ *
+ * const otlp = new OtlpTransport({ endpoint: "http://localhost:4318/v1/logs" });
+ * const logger = new Logger({
+ *   application: "api",
+ *   environment: "production",
+ *   severity: "INFO",
+ *   mode: "JSON",
+ *   transports: { INFO: otlp, WARN: otlp, ERROR: otlp },
+ * });
+ *
+ * logger.info("Started");
+ * await logger.close();
+ * ```
+ */
+export class OtlpTransport implements Transport {
+  readonly options: Required<OtlpTransport.Options>;
+  #buffer: LogObject[] = [];
+  #pending: Promise<void> = Promise.resolve();
+  #timer?: number;
+
+  constructor(options: OtlpTransport.Options = {}) {
+    this.options = {
+      endpoint: "http://localhost:4318/v1/logs",
+      headers: {},
+      scope: "my-dev-toolkit",
+      batchSize: 512,
+      flushInterval: 5000,
+      maxRetries: 3,
+      retryDelay: 500,
+      onError: (error) => console.error(error),
+      ...options,
+    };
+  }
+
+  public write(_message: string, logObject: LogObject) {
+    this.#buffer.push(logObject);
+
+    if (this.#buffer.length >= this.options.batchSize) {
+      this.flush();
+    } else if (this.#timer === undefined) {
+      this.#timer = setTimeout(() => this.flush(), this.options.flushInterval);
+      Deno.unrefTimer(this.#timer);
+    }
+  }
+
+  /**
+   * Sends the buffered logs.
+   *
+   * @returns A promise that resolves when every batch sent so far was delivered or
+   * dropped.
+   */
+  public flush() {
+    clearTimeout(this.#timer);
+    this.#timer = undefined;
+
+    const batch = this.#buffer.splice(0);
+
+    if (batch.length > 0) {
+      this.#pending = this.#pending.then(() => this.send(batch));
+    }
+
+    return this.#pending;
+  }
+
+  public close() {
+    return this.flush();
+  }
+
+  protected async send(batch: LogObject[]) {
+    const body = JSON.stringify(toOtlpPayload(batch, this.options.scope));
+
+    for (let attempt = 0; ; attempt++) {
+      let error: unknown;
+      let retryable: boolean;
+
+      try {
+        const response = await fetch(this.options.endpoint, {
+          method: "POST",
+          headers: { ...this.options.headers, "content-type": "application/json" },
+          body,
+        });
+
+        await response.body?.cancel();
+
+        if (response.ok) return;
+
+        error = new Error(
+          `The collector responded with ${response.status} ${response.statusText}.`,
+        );
+        retryable = RETRYABLE_STATUSES.includes(response.status);
+      } catch (fetchError) {
+        // Network errors are thrown by fetch as TypeErrors.
+        error = fetchError;
+        retryable = fetchError instanceof TypeError;
+      }
+
+      if (!retryable || attempt >= this.options.maxRetries) {
+        this.options.onError(error);
+        return;
+      }
+
+      await delay(this.options.retryDelay * 2 ** attempt);
+    }
+  }
+}
+
+export namespace OtlpTransport {
+  /**
+   * Options for the {@link OtlpTransport}.
+   */
+  export type Options = {
+    /**
+     * The URL of the logs endpoint of the collector.
+     */
+    endpoint?: string;
+    /**
+     * Headers to send with every request, like an authorization header.
+     */
+    headers?: Record<string, string>;
+    /**
+     * The name of the instrumentation scope of the logs.
+     */
+    scope?: string;
+    /**
+     * The number of logs that triggers sending a batch.
+     */
+    batchSize?: number;
+    /**
+     * The time after the first buffered log when the batch is sent, in milliseconds.
+     */
+    flushInterval?: number;
+    /**
+     * How many times a failed request is retried before dropping the batch.
+     */
+    maxRetries?: number;
+    /**
+     * The delay before the first retry, in milliseconds. It doubles on every retry.
+     */
+    retryDelay?: number;
+    /**
+     * Called when a batch is dropped.
+     */
+    onError?: (error: unknown) => void;
+  };
+
+  /**
+   * An OTLP attribute value.
+   */
+  export type AnyValue =
+    | { stringValue: string }
+    | { boolValue: boolean }
+    | { intValue: string }
+    | { doubleValue: number }
+    | { arrayValue: { values: AnyValue[] } }
+    | { kvlistValue: { values: KeyValue[] } };
+
+  /**
+   * An OTLP attribute.
+   */
+  export type KeyValue = { key: string; value: AnyValue };
+
+  /**
+   * An OTLP log record.
+   */
+  export type LogRecord = {
+    timeUnixNano: string;
+    observedTimeUnixNano: string;
+    severityNumber: number;
+    severityText: string;
+    body: AnyValue;
+    attributes: KeyValue[];
+    traceId?: string;
+    spanId?: string;
+  };
+}
+
+/**
+ * Converts a log object into an OTLP log record. The service fields aren't included,
+ * since they're attributes of the resource.
+ *
+ * @param logObject - The log object to convert.
+ * @returns The log record.
+ *
+ * @example
+ *
+ * ```ts
+ * import { LogObject } from "./logger.ts";
+ * import { toOtlpLogRecord } from "./logger-otlp.ts";
+ *
+ * const logObject = new LogObject().setBaseFields("Hello!").setLogFields("INFO", "app");
+ *
+ * const record = toOtlpLogRecord(logObject);
+ *
+ * console.assert(record.severityNumber === 9);
+ * ```
+ */
+export function toOtlpLogRecord(logObject: LogObject): OtlpTransport.LogRecord {
+  const attributes: OtlpTransport.KeyValue[] = [];
+  const time = toUnixNano(logObject["@timestamp"]);
+
+  for (const [key, value] of Object.entries(logObject)) {
+    if (IGNORED_FIELDS.includes(key) || key in ResourceAttributeName) continue;
+    if (value === undefined || value === "") continue;
+
+    const attribute =
+      key === "error.stack_trace"
+        ? stringifyErrorNode({
+            type: logObject["error.type"] || "Error",
+            message: logObject["error.message"] || "",
+            stack_trace: logObject["error.stack_trace"] || [],
+            cause: logObject["error.cause"],
+            errors: logObject["error.errors"],
+          })
+        : value;
+
+    attributes.push(toKeyValue(LogAttributeName[key] || key, attribute));
+  }
+
+  for (const [key, value] of Object.entries(logObject.labels || {})) {
+    attributes.push(toKeyValue(`labels.${key}`, value));
+  }
+
+  if (logObject.tags) {
+    attributes.push(toKeyValue("tags", logObject.tags));
+  }
+
+  if (logObject.data && logObject.data.length > 0) {
+    attributes.push(toKeyValue("data", toSerializable(logObject.data)));
+  }
+
+  const record: OtlpTransport.LogRecord = {
+    timeUnixNano: time,
+    observedTimeUnixNano: time,
+    severityNumber: OtlpSeverityNumber[logObject["log.level"]] || 0,
+    severityText: logObject["log.level"],
+    body: toAnyValue(logObject.message),
+    attributes,
+  };
+
+  if (TRACE_ID_REGEX.test(logObject["trace.id"] || "")) {
+    record.traceId = logObject["trace.id"];
+  }
+
+  if (SPAN_ID_REGEX.test(logObject["span.id"] || "")) {
+    record.spanId = logObject["span.id"];
+  }
+
+  return record;
+}
+
+function toOtlpPayload(logObjects: LogObject[], scope: string) {
+  const resources = new Map<string, { attributes: OtlpTransport.KeyValue[] }>();
+  const recordsByResource = new Map<string, OtlpTransport.LogRecord[]>();
+
+  for (const logObject of logObjects) {
+    const attributes = Object.entries(ResourceAttributeName)
+      .filter(([field]) => logObject[field as keyof LogObject] !== undefined)
+      .map(([field, name]) => toKeyValue(name, logObject[field as keyof LogObject]));
+    const key = JSON.stringify(attributes);
+
+    resources.set(key, { attributes });
+    recordsByResource.set(key, [
+      ...(recordsByResource.get(key) || []),
+      toOtlpLogRecord(logObject),
+    ]);
+  }
+
+  return {
+    resourceLogs: Array.from(resources, ([key, resource]) => ({
+      resource,
+      scopeLogs: [{ scope: { name: scope }, logRecords: recordsByResource.get(key) }],
+    })),
+  };
+}
+
+function toKeyValue(key: string, value: unknown): OtlpTransport.KeyValue {
+  return { key, value: toAnyValue(value) };
+}
+
+function toAnyValue(value: unknown): OtlpTransport.AnyValue {
+  if (typeof value === "string") {
+    return { stringValue: value };
+  }
+
+  if (typeof value === "boolean") {
+    return { boolValue: value };
+  }
+
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value };
+  }
+
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(toAnyValue) } };
+  }
+
+  if (typeof value === "object" && value !== null) {
+    return {
+      kvlistValue: {
+        values: Object.entries(value).map(([key, item]) => toKeyValue(key, item)),
+      },
+    };
+  }
+
+  return { stringValue: String(value) };
+}
+
+function toUnixNano(timestamp: string) {
+  return (BigInt(Date.parse(timestamp)) * 1_000_000n).toString();
+}
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
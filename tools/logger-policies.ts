@@ -0,0 +1,146 @@
+// deno-lint-ignore-file no-namespace
+
+/**
+ * Limits how often something can happen per key, refilling the allowance over time.
+ *
+ * Each key starts with `limit` tokens and gets them back at a constant pace, so `limit`
+ * events are allowed per `interval` on average, with bursts of up to `limit` events.
+ *
+ * @example
+ *
+ * ```ts
+ * import { TokenBucket } from "./logger-policies.ts";
+ *
+ * const bucket = new TokenBucket(2, 1000);
+ *
+ * console.assert(bucket.take("debug") === true);
+ * console.assert(bucket.take("debug") === true);
+ * console.assert(bucket.take("debug") === false);
+ * console.assert(bucket.take("info") === true);
+ * ```
+ */
+export class TokenBucket {
+  #buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  /**
+   * @param limit - The maximum number of tokens of a key.
+   * @param interval - The time it takes to refill all the tokens, in milliseconds.
+   */
+  constructor(readonly limit: number, readonly interval: number) {}
+
+  /**
+   * Takes a token of the given key, if there's any left.
+   *
+   * @param key - The key to take the token from.
+   * @param now - The current time, in milliseconds.
+   * @returns `true` if a token was taken.
+   */
+  public take(key: string, now = Date.now()) {
+    const bucket = this.#buckets.get(key) || { tokens: this.limit, updatedAt: now };
+    const refill = ((now - bucket.updatedAt) * this.limit) / this.interval;
+
+    bucket.tokens = Math.min(this.limit, bucket.tokens + refill);
+    bucket.updatedAt = now;
+    this.#buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) {
+      return false;
+    }
+
+    bucket.tokens--;
+
+    return true;
+  }
+}
+
+/**
+ * Detects consecutive repetitions of the same key within a time window.
+ *
+ * The first occurrence is let through and the following ones are counted, so they can be
+ * reported as a single "repeated N times" entry when a different key arrives, when the
+ * window ends or when the repetitions are drained.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Deduplicator } from "./logger-policies.ts";
+ *
+ * const deduplicator = new Deduplicator<string>(1000);
+ *
+ * deduplicator.track("retrying", "DEBUG");
+ * deduplicator.track("retrying", "DEBUG");
+ *
+ * const { duplicate, repeated } = deduplicator.track("done", "INFO");
+ *
+ * console.assert(duplicate === false);
+ * console.assert(repeated?.count === 1);
+ * ```
+ */
+export class Deduplicator<T> {
+  #last?: { key: string; since: number; payload: T; count: number };
+
+  /**
+   * @param window - The time in which repetitions are collapsed, in milliseconds.
+   */
+  constructor(readonly window: number) {}
+
+  /**
+   * Registers an occurrence of a key.
+   *
+   * @param key - The key of the occurrence, like the message of a log.
+   * @param payload - Data to return along the count of repetitions.
+   * @param now - The current time, in milliseconds.
+   * @returns Whether the occurrence is a duplicate, and the repetitions of the previous
+   * key that weren't reported yet.
+   */
+  public track(key: string, payload: T, now = Date.now()): Deduplicator.Result<T> {
+    const last = this.#last;
+
+    if (last && last.key === key && now - last.since <= this.window) {
+      last.count++;
+
+      return { duplicate: true };
+    }
+
+    const repeated = this.drain();
+
+    this.#last = { key, since: now, payload, count: 0 };
+
+    return { duplicate: false, repeated };
+  }
+
+  /**
+   * Gets the repetitions that weren't reported yet and resets their count.
+   *
+   * @returns The payload of the repeated key and how many times it was repeated, if any.
+   */
+  public drain() {
+    const last = this.#last;
+
+    if (!last || last.count === 0) {
+      return undefined;
+    }
+
+    const repeated = { payload: last.payload, count: last.count };
+
+    last.count = 0;
+
+    return repeated;
+  }
+}
+
+export namespace Deduplicator {
+  /**
+   * The result of tracking an occurrence.
+   */
+  export type Result<T> = {
+    /**
+     * Whether the occurrence repeats the previous one and should be skipped.
+     */
+    duplicate: boolean;
+    /**
+     * The repetitions of the previous key that weren't reported yet.
+     */
+    repeated?: { payload: T; count: number };
+  };
+}
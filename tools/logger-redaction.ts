@@ -0,0 +1,231 @@
+import { z } from "./deps.ts";
+
+/**
+ * Regular expressions that match common secrets and personal data inside strings.
+ */
+export const RedactionPattern = {
+  Jwt: /\beyJ[\w-]*\.eyJ[\w-]*\.[\w-]*/g,
+  BearerToken: /(?<=\bBearer\s+)[\w.~+/-]+=*/gi,
+  GitHubToken: /\b(?:gh[opsu]_|github_pat_)\w{20,}/g,
+  DenoDeployToken: /\bdd[po]_\w{20,}/g,
+  Email: /\b[\w.%+-]+@[\w-]+(?:\.[\w-]+)*\.[a-z]{2,}\b/gi,
+} as const;
+
+/**
+ * The names of the keys whose values are always sensitive, like `deployToken` or
+ * `DENO_DEPLOY_TOKEN`.
+ */
+export const SENSITIVE_KEY_REGEX =
+  /token|secret|passw(?:or)?d|authorization|cookie|api[-_]?key|credential|private[-_]?key/i;
+
+/**
+ * The key names and value patterns masked by every redactor, unless `replaceDefaults`
+ * is set.
+ */
+export const DefaultRedaction = {
+  keys: [SENSITIVE_KEY_REGEX],
+  patterns: [
+    RedactionPattern.Jwt,
+    RedactionPattern.BearerToken,
+    RedactionPattern.GitHubToken,
+    RedactionPattern.DenoDeployToken,
+  ],
+} as const;
+
+export const RedactionSchema = z.object({
+  /**
+   * Dotted paths to mask inside each `data` argument and the labels, like
+   * `options.projectId`. A `*` segment matches any key.
+   */
+  paths: z.array(z.string()).default([]),
+  /**
+   * The names of the keys to mask, at any depth, besides the default ones. Strings are
+   * compared ignoring the case.
+   */
+  keys: z.array(z.union([z.string(), z.instanceof(RegExp)])).default([]),
+  /**
+   * Patterns of the values to mask inside any string, including the message and the
+   * message of errors, besides the default ones.
+   */
+  patterns: z.array(z.instanceof(RegExp)).default([]),
+  /**
+   * Uses only the given keys and patterns, without the default ones.
+   */
+  replaceDefaults: z.boolean().default(false),
+  /**
+   * The text that replaces the masked values.
+   */
+  mask: z.string().default("[REDACTED]"),
+});
+
+export type RedactionInput = z.input<typeof RedactionSchema>;
+
+export type Redaction = z.output<typeof RedactionSchema>;
+
+/**
+ * Masks sensitive values by key path, key name and value pattern.
+ *
+ * Values are copied instead of modified, so the objects passed to the logger are left
+ * untouched. Errors are copied with the same prototype, so they're still displayed as
+ * errors. Instances of other classes, like `URL`, are left as they are.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Redactor } from "./logger-redaction.ts";
+ *
+ * const redactor = new Redactor({ paths: ["user.name"] });
+ * const value = redactor.redact({ user: { name: "Jane" }, deployToken: "1234" });
+ *
+ * console.assert(value.user.name === "[REDACTED]");
+ * console.assert(value.deployToken === "[REDACTED]");
+ * ```
+ */
+export class Redactor {
+  readonly options: Redaction;
+  #paths: string[][];
+  #keys: Array<string | RegExp>;
+  #patterns: RegExp[];
+
+  constructor(options: RedactionInput = {}) {
+    this.options = RedactionSchema.parse(options);
+
+    const defaults = this.options.replaceDefaults
+      ? { keys: [], patterns: [] }
+      : DefaultRedaction;
+
+    this.#paths = this.options.paths.map((path) => path.split("."));
+    this.#keys = [...defaults.keys, ...this.options.keys];
+    this.#patterns = [...defaults.patterns, ...this.options.patterns].map(toGlobalRegExp);
+  }
+
+  /**
+   * Masks the parts of a string that match the value patterns.
+   *
+   * @param text - The string to mask.
+   * @returns The masked string.
+   */
+  public redactString(text: string) {
+    return this.#patterns.reduce(
+      (result, pattern) => result.replace(pattern, this.options.mask),
+      text,
+    );
+  }
+
+  /**
+   * Creates a copy of a value with its sensitive parts masked.
+   *
+   * @param value - The value to mask.
+   * @returns The masked copy.
+   */
+  public redact<T>(value: T): T {
+    return this.visit(value, [], new Map()) as T;
+  }
+
+  protected visit(value: unknown, path: string[], copies: Map<object, unknown>): unknown {
+    if (typeof value === "string") {
+      return this.redactString(value);
+    }
+
+    if (typeof value !== "object" || value === null) {
+      return value;
+    }
+
+    if (copies.has(value)) {
+      return copies.get(value);
+    }
+
+    const visitItem = (item: unknown, key: string) =>
+      this.isSensitive(key, [...path, key])
+        ? this.options.mask
+        : this.visit(item, [...path, key], copies);
+
+    if (Array.isArray(value)) {
+      const copy: unknown[] = [];
+
+      copies.set(value, copy);
+      value.forEach((item, index) => copy.push(visitItem(item, String(index))));
+
+      return copy;
+    }
+
+    if (value instanceof Set) {
+      const copy = new Set();
+
+      copies.set(value, copy);
+      Array.from(value).forEach((item, index) =>
+        copy.add(visitItem(item, String(index))),
+      );
+
+      return copy;
+    }
+
+    if (value instanceof Map) {
+      const copy = new Map();
+
+      copies.set(value, copy);
+      value.forEach((item, key) => copy.set(key, visitItem(item, String(key))));
+
+      return copy;
+    }
+
+    if (!isPlainObject(value) && !(value instanceof Error)) {
+      return value;
+    }
+
+    const copy = Object.create(Object.getPrototypeOf(value));
+
+    copies.set(value, copy);
+
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = visitItem(item, key);
+    }
+
+    if (value instanceof Error) {
+      for (const key of ["message", "stack"] as const) {
+        const text = value[key];
+
+        if (typeof text === "string") {
+          Object.defineProperty(copy, key, {
+            value: this.redactString(text),
+            writable: true,
+            configurable: true,
+          });
+        }
+      }
+
+      if ("cause" in value) {
+        copy.cause = visitItem(value.cause, "cause");
+      }
+    }
+
+    return copy;
+  }
+
+  protected isSensitive(key: string, path: string[]) {
+    const matchesKey = this.#keys.some((name) =>
+      typeof name === "string"
+        ? name.toLowerCase() === key.toLowerCase()
+        : key.search(name) !== -1,
+    );
+
+    return matchesKey || this.#paths.some((segments) => matchesPath(segments, path));
+  }
+}
+
+function toGlobalRegExp(pattern: RegExp) {
+  return pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + "g");
+}
+
+function matchesPath(segments: string[], path: string[]) {
+  return (
+    segments.length === path.length &&
+    segments.every((segment, i) => segment === "*" || segment === path[i])
+  );
+}
+
+function isPlainObject(value: object) {
+  const prototype = Object.getPrototypeOf(value);
+
+  return prototype === Object.prototype || prototype === null;
+}
@@ -0,0 +1,313 @@
+import { callsites, type ExpandedCallSite } from "./callsites.ts";
+import { fromFileUrl, z } from "./deps.ts";
+
+const INTERNAL_FRAME_REGEX = /^(?:ext:|node:|deno:|internal[:/])/;
+const REMOTE_FRAME_REGEX = /^https?:\/\//;
+const LOCAL_FRAME_REGEX = /^(?:file:\/\/|\/)/;
+const STACK_LINE_REGEX = /^\s*at (?:(.+?) \()?(.+):(\d+):(\d+)\)?$/;
+
+/**
+ * Defines how the stack traces of errors are filtered and displayed.
+ *
+ * Deno already maps the call sites to the TypeScript sources, so file names, lines and
+ * columns point to the code as it was written.
+ */
+export const StackOptionsSchema = z.object({
+  /**
+   * Hides the frames of the runtime, like `ext:` and `node:` ones.
+   */
+  hideInternal: z.boolean().default(true),
+  /**
+   * Collapses consecutive frames of remote modules, like `https://deno.land/...`, into
+   * the first one.
+   */
+  collapseRemote: z.boolean().default(true),
+  /**
+   * Shows the lines around the origin of the error, in pretty mode.
+   */
+  codeFrame: z.boolean().default(true),
+  /**
+   * The number of lines shown before and after the origin of the error.
+   */
+  codeFrameLines: z.number().int().nonnegative().default(2),
+  /**
+   * How many levels of causes and aggregated errors are rendered.
+   */
+  maxDepth: z.number().int().positive().default(5),
+});
+
+export type StackOptionsInput = z.input<typeof StackOptionsSchema>;
+
+export type StackOptions = z.output<typeof StackOptionsSchema>;
+
+/**
+ * A frame of a filtered stack trace. `collapsed` counts the remote frames that follow it
+ * and were hidden.
+ */
+export type StackEntry = ExpandedCallSite & { collapsed?: number };
+
+/**
+ * An error with its filtered stack trace, its cause and, for an `AggregateError`, the
+ * errors it groups.
+ */
+export type ErrorNode = {
+  type: string;
+  message: string;
+  stack_trace: StackEntry[];
+  cause?: ErrorNode;
+  errors?: ErrorNode[];
+};
+
+/**
+ * Gets the call sites of an error. Once `error.stack` is read, V8 formats the stack as a
+ * string and the call sites are gone, so they're parsed from the formatted stack instead.
+ *
+ * @param error - The error.
+ * @returns The call sites of the error.
+ *
+ * @example
+ *
+ * ```ts
+ * import { getErrorCallSites } from "./logger-stack.ts";
+ *
+ * const error = new Error("Oops!");
+ *
+ * console.assert(typeof error.stack === "string");
+ * console.assert(getErrorCallSites(error)[0].fileName === import.meta.url);
+ * ```
+ */
+export function getErrorCallSites(error: Error): ExpandedCallSite[] {
+  const sites = callsites(error);
+
+  if (sites.length > 0 || typeof error.stack !== "string") {
+    return sites;
+  }
+
+  return error.stack.split("\n").flatMap((line) => {
+    const match = line.match(STACK_LINE_REGEX);
+
+    return match ? [parseStackLine(match)] : [];
+  });
+}
+
+/**
+ * Removes the internal frames of a stack trace and collapses the remote ones.
+ *
+ * @param sites - The call sites of the stack trace.
+ * @param options - The stack options.
+ * @returns The filtered stack trace.
+ *
+ * @example
+ *
+ * ```ts
+ * import { callsites } from "./callsites.ts";
+ * import { filterStack, StackOptionsSchema } from "./logger-stack.ts";
+ *
+ * const stack = filterStack(callsites(new Error()), StackOptionsSchema.parse({}));
+ *
+ * console.assert(stack.every((site) => !site.fileName?.startsWith("ext:")));
+ * ```
+ */
+export function filterStack(sites: ExpandedCallSite[], options: StackOptions) {
+  const entries: StackEntry[] = [];
+
+  for (const site of sites) {
+    const fileName = site.fileName || "";
+    const previous = entries[entries.length - 1];
+
+    if (options.hideInternal && (!fileName || INTERNAL_FRAME_REGEX.test(fileName))) {
+      continue;
+    }
+
+    if (
+      options.collapseRemote &&
+      REMOTE_FRAME_REGEX.test(fileName) &&
+      REMOTE_FRAME_REGEX.test(previous?.fileName || "")
+    ) {
+      previous.collapsed = (previous.collapsed || 0) + 1;
+      continue;
+    }
+
+    entries.push({ ...site });
+  }
+
+  return entries;
+}
+
+/**
+ * Describes an error with its filtered stack trace, following its `cause` and the errors
+ * of an `AggregateError` up to `maxDepth` levels.
+ *
+ * @param error - The error to describe.
+ * @param options - The stack options.
+ * @param redact - Masks sensitive data in the messages.
+ * @returns The description of the error.
+ */
+export function describeError(
+  error: Error,
+  options: StackOptions,
+  redact: (text: string) => string = (text) => text,
+) {
+  return describeErrorAt(error, options, redact, 0);
+}
+
+/**
+ * Formats an error description like a V8 stack trace, followed by its cause and the
+ * errors it groups.
+ *
+ * @param node - The error description.
+ * @returns The formatted stack trace, without the first line with the error message.
+ *
+ * @example
+ *
+ * ```ts
+ * import { describeError, stringifyErrorNode, StackOptionsSchema } from "./logger-stack.ts";
+ *
+ * const error = new Error("Failed", { cause: new TypeError("Oops!") });
+ * const text = stringifyErrorNode(describeError(error, StackOptionsSchema.parse({})));
+ *
+ * console.assert(text.includes("Caused by: TypeError: Oops!"));
+ * ```
+ */
+export function stringifyErrorNode(node: ErrorNode): string {
+  const lines = node.stack_trace.map(stringifyCallSite);
+
+  if (node.cause) {
+    lines.push(`Caused by: ${node.cause.type}: ${node.cause.message}`);
+    lines.push(stringifyErrorNode(node.cause));
+  }
+
+  node.errors?.forEach((error, index) => {
+    lines.push(`[${index}] ${error.type}: ${error.message}`);
+    lines.push(stringifyErrorNode(error));
+  });
+
+  return lines.filter(Boolean).join("\n");
+}
+
+/**
+ * Formats a call site like a line of a V8 stack trace.
+ *
+ * @param site - The call site.
+ * @returns The formatted line, like `    at main (file:///mod.ts:1:1)`.
+ */
+export function stringifyCallSite(site: StackEntry) {
+  const location = `${site.fileName}:${site.lineNumber}:${site.columnNumber}`;
+  const line = site.functionName
+    ? `    at ${site.functionName} (${location})`
+    : `    at ${location}`;
+
+  return site.collapsed ? `${line} (+${site.collapsed} remote frames)` : line;
+}
+/**
+ * Renders the lines around a call site of a local file, pointing to its column. Local
+ * files are `file://` URLs or absolute paths.
+ *
+ * @param site - The call site.
+ * @param lines - The number of lines to show before and after the call site.
+ * @returns The code frame, or `null` if the file can't be read.
+ *
+ * @example
+ *
+ * ```ts
+ * import { createCodeFrame } from "./logger-stack.ts";
+ *
+ * const frame = createCodeFrame({ fileName: import.meta.url, lineNumber: 1, columnNumber: 1 });
+ *
+ * console.assert(frame?.startsWith("> 1 | "));
+ * ```
+ */
+export function createCodeFrame(
+  site: Pick<ExpandedCallSite, "fileName" | "lineNumber" | "columnNumber">,
+  lines = 2,
+) {
+  const { fileName, lineNumber, columnNumber } = site;
+
+  if (!fileName || !lineNumber || !LOCAL_FRAME_REGEX.test(fileName)) {
+    return null;
+  }
+
+  let source: string[];
+
+  try {
+    const path = fileName.startsWith("file://") ? fromFileUrl(fileName) : fileName;
+
+    source = Deno.readTextFileSync(path).split("\n");
+  } catch {
+    return null;
+  }
+
+  const start = Math.max(1, lineNumber - lines);
+  const end = Math.min(source.length, lineNumber + lines);
+  const width = String(end).length;
+  const frame: string[] = [];
+
+  for (let line = start; line <= end; line++) {
+    const gutter = String(line).padStart(width);
+    const marker = line === lineNumber ? ">" : " ";
+
+    frame.push(`${marker} ${gutter} | ${source[line - 1]}`.trimEnd());
+
+    if (line === lineNumber && columnNumber) {
+      frame.push(`  ${" ".repeat(width)} | ${" ".repeat(columnNumber - 1)}^`);
+    }
+  }
+
+  return frame.join("\n");
+}
+
+function describeErrorAt(
+  error: Error,
+  options: StackOptions,
+  redact: (text: string) => string,
+  depth: number,
+): ErrorNode {
+  const node: ErrorNode = {
+    type: error.name,
+    message: redact(error.message),
+    stack_trace: filterStack(getErrorCallSites(error), options),
+  };
+
+  if (depth >= options.maxDepth) {
+    return node;
+  }
+
+  const describe = (value: unknown): ErrorNode =>
+    value instanceof Error
+      ? describeErrorAt(value, options, redact, depth + 1)
+      : { type: "Cause", message: redact(inspect(value)), stack_trace: [] };
+
+  if (error.cause !== undefined) {
+    node.cause = describe(error.cause);
+  }
+
+  if (error instanceof AggregateError) {
+    node.errors = error.errors.map(describe);
+  }
+
+  return node;
+}
+
+function parseStackLine([, functionName, fileName, line, column]: RegExpMatchArray) {
+  return {
+    this: undefined,
+    typeName: null,
+    function: undefined,
+    functionName: functionName || null,
+    methodName: null,
+    fileName,
+    lineNumber: Number(line),
+    columnNumber: Number(column),
+    evalOrigin: undefined,
+    isTopLevel: false,
+    isEval: false,
+    isNative: false,
+    isConstructor: false,
+  } as ExpandedCallSite;
+}
+
+function inspect(value: unknown) {
+  return typeof value === "string"
+    ? value
+    : Deno.inspect(value, { colors: false, compact: true, breakLength: Infinity });
+}
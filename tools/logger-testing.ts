@@ -0,0 +1,269 @@
+// deno-lint-ignore-file no-namespace
+import { stripAnsi } from "./ansi.ts";
+import { formatDate } from "./deps.ts";
+import { Logger, LoggerConfig, type LogObject } from "./logger.ts";
+import { MemoryTransport } from "./logger-transports.ts";
+
+/**
+ * Thrown by {@link LogCapture.expectLogged} and {@link LogCapture.expectNotLogged} when
+ * the captured logs don't match the expectation.
+ */
+export class LogAssertionError extends Error {
+  /**
+   * Constructs a new `LogAssertionError`.
+   *
+   * @param message - What was expected.
+   * @param logObjects - The captured logs, listed in the message.
+   */
+  constructor(message: string, logObjects: LogObject[]) {
+    const logs = logObjects.map((log) => `  - ${log["log.level"]} ${log.message}`);
+
+    super([message, "Captured logs:", ...logs].join("\n"));
+    this.name = "LogAssertionError";
+  }
+}
+
+/**
+ * Captures the logs of a logger in memory, so tests can assert what was logged.
+ *
+ * Every level of the logger writes to the capture, in pretty mode and without colors by
+ * default. Use {@link withGlobalLogger} to capture the logs of the commands that use
+ * `globalThis.logger`.
+ *
+ * @example
+ *
+ * ```ts
+ * import { withContext } from "./logger.ts";
+ * import { LogCapture } from "./logger-testing.ts";
+ *
+ * const capture = new LogCapture();
+ *
+ * capture.logger.warn("The deploy is slow.", withContext({ labels: { region: "eu" } }));
+ *
+ * capture.expectLogged({ level: "WARN", message: /deploy/, labels: { region: "eu" } });
+ * capture.expectNotLogged({ level: "ERROR" });
+ * ```
+ */
+export class LogCapture {
+  readonly logger: Logger;
+  readonly transport: MemoryTransport;
+
+  constructor(settings: Partial<LoggerConfig.SettingsInput> = {}) {
+    const levels = LoggerConfig.LevelsSchema.parse(settings.levels);
+
+    this.transport = new MemoryTransport(Infinity);
+    this.logger = new Logger({
+      application: "test",
+      environment: "test",
+      severity: LoggerConfig.SeverityName.Trace,
+      mode: LoggerConfig.Mode.Pretty,
+      colors: false,
+      ...settings,
+      transports: Object.fromEntries(
+        Object.keys(levels).map((level) => [level, this.transport]),
+      ),
+    });
+  }
+
+  /**
+   * The captured logs, from the oldest to the newest.
+   */
+  get logObjects() {
+    return this.transport.entries.map((entry) => entry.logObject);
+  }
+
+  /**
+   * Finds the captured logs that match every given property.
+   *
+   * @param matcher - The properties of the logs.
+   * @returns The matching logs.
+   */
+  public find(matcher: LogCapture.Matcher) {
+    return this.logObjects.filter((logObject) => matches(logObject, matcher));
+  }
+
+  /**
+   * Asserts that at least one captured log matches the given properties.
+   *
+   * @param matcher - The properties of the log.
+   * @returns The first matching log.
+   * @throws - {@link LogAssertionError}
+   */
+  public expectLogged(matcher: LogCapture.Matcher) {
+    const [logObject] = this.find(matcher);
+
+    if (!logObject) {
+      throw new LogAssertionError(
+        `Expected a log matching ${inspect(matcher)}.`,
+        this.logObjects,
+      );
+    }
+
+    return logObject;
+  }
+
+  /**
+   * Asserts that no captured log matches the given properties.
+   *
+   * @param matcher - The properties of the log.
+   * @throws - {@link LogAssertionError}
+   */
+  public expectNotLogged(matcher: LogCapture.Matcher) {
+    const found = this.find(matcher);
+
+    if (found.length > 0) {
+      throw new LogAssertionError(
+        `Expected no log matching ${inspect(matcher)}, but found ${found.length}.`,
+        this.logObjects,
+      );
+    }
+  }
+
+  /**
+   * Returns the formatted logs as stable text, to be compared with a snapshot: ANSI codes
+   * and trailing spaces are stripped, and timestamps and log origins are replaced by
+   * placeholders.
+   *
+   * @returns The formatted logs, separated by new lines.
+   *
+   * @example
+   *
+   * ```ts
+   * import { LogCapture } from "./logger-testing.ts";
+   *
+   * const capture = new LogCapture();
+   *
+   * capture.logger.info("Hello!");
+   *
+   * console.assert(capture.snapshot().includes("[test] <origin> Hello!"));
+   * ```
+   */
+  public snapshot() {
+    return this.transport.entries
+      .map(({ message, logObject }) => {
+        const date = new Date(logObject["@timestamp"]);
+        const origin = [
+          logObject["log.origin.file.path"],
+          logObject["log.origin.file.line"],
+          logObject["log.origin.file.column"],
+        ].join(":");
+
+        return stripAnsi(message)
+          .replaceAll(logObject["@timestamp"], "<timestamp>")
+          .replaceAll(formatDate(date, "yyyy-MM-dd HH:mm:ss.SSS"), "<timestamp>")
+          .replaceAll(origin, "<origin>")
+          .replace(/[ \t]+$/gm, "");
+      })
+      .join("\n");
+  }
+
+  /**
+   * Removes every captured log.
+   */
+  public clear() {
+    this.transport.clear();
+  }
+}
+
+export namespace LogCapture {
+  /**
+   * The properties of a captured log. Strings are compared exactly, and regular
+   * expressions are tested against the value.
+   */
+  export type Matcher = {
+    /**
+     * The level of the log.
+     */
+    level?: LoggerConfig.LevelName;
+    /**
+     * The message of the log.
+     */
+    message?: string | RegExp;
+    /**
+     * Labels that the log has, among others.
+     */
+    labels?: Record<string, string | RegExp>;
+    /**
+     * Tags that the log has, among others.
+     */
+    tags?: string[];
+    /**
+     * The message of the logged error.
+     */
+    error?: string | RegExp;
+    /**
+     * The module of the logger.
+     */
+    module?: string;
+  };
+}
+
+/**
+ * Replaces `globalThis.logger` while running a function, and restores it afterwards, even
+ * if the function throws.
+ *
+ * @param logger - The logger used by the function.
+ * @param fn - The function to run.
+ * @returns The result of the function.
+ *
+ * @example
+ *
+ * ```ts
+ * import { LogCapture, withGlobalLogger } from "./logger-testing.ts";
+ *
+ * const capture = new LogCapture();
+ *
+ * await withGlobalLogger(capture.logger, async () => {
+ *   globalThis.logger.info("Running the command.");
+ * });
+ *
+ * capture.expectLogged({ message: "Running the command." });
+ * ```
+ */
+export function withGlobalLogger<T>(logger: Logger, fn: () => T): T {
+  const previous = globalThis.logger;
+  const restore = () => {
+    globalThis.logger = previous;
+  };
+
+  globalThis.logger = logger;
+
+  try {
+    const result = fn();
+
+    if (result instanceof Promise) {
+      return result.finally(restore) as T;
+    }
+
+    restore();
+
+    return result;
+  } catch (error) {
+    restore();
+    throw error;
+  }
+}
+
+function matches(logObject: LogObject, matcher: LogCapture.Matcher) {
+  const labels = Object.entries(matcher.labels || {});
+  const moduleName = logObject["log.logger"].split(":")[1];
+
+  return (
+    (matcher.level === undefined || logObject["log.level"] === matcher.level) &&
+    (matcher.message === undefined || test(logObject.message, matcher.message)) &&
+    (matcher.error === undefined || test(logObject["error.message"], matcher.error)) &&
+    (matcher.module === undefined || moduleName === matcher.module) &&
+    labels.every(([key, value]) => test(logObject.labels?.[key], value)) &&
+    (matcher.tags || []).every((tag) => logObject.tags?.includes(tag))
+  );
+}
+
+function test(value: string | undefined, expected: string | RegExp) {
+  if (value === undefined) return false;
+
+  return typeof expected === "string" ? value === expected : expected.test(value);
+}
+
+function inspect(value: unknown) {
+  return Deno.inspect(value, { colors: false, compact: true, breakLength: Infinity });
+}
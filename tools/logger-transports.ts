@@ -0,0 +1,349 @@
+// deno-lint-ignore-file no-namespace
+import { formatDate } from "./deps.ts";
+import type { LogObject, LoggerConfig } from "./logger.ts";
+
+const encoder = new TextEncoder();
+
+/**
+ * A destination for formatted log lines, like the console or a file.
+ *
+ * Only `write` is required. Transports that buffer or hold resources should implement
+ * `flush` and `close`, which are called by `Logger.flush()` and `Logger.close()`.
+ */
+export interface Transport {
+  /**
+   * The format of the lines the transport receives. Defaults to the `mode` of the logger.
+   */
+  format?: LoggerConfig.Mode;
+  /**
+   * Writes a formatted log line.
+   *
+   * @param message - The formatted log line.
+   * @param logObject - The log object the line was formatted from.
+   */
+  write(message: string, logObject: LogObject): void;
+  /**
+   * Writes any buffered log line.
+   */
+  flush?(): void | Promise<void>;
+  /**
+   * Flushes and releases the resources held by the transport.
+   */
+  close?(): void | Promise<void>;
+}
+
+/**
+ * Checks if a value implements the {@link Transport} interface.
+ *
+ * @param value - The value to check.
+ * @returns `true` if the value has a `write` method.
+ */
+export function isTransport(value: unknown): value is Transport {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as Transport).write === "function"
+  );
+}
+
+/**
+ * Writes log lines through a console method, like `console.info`.
+ *
+ * @example
+ *
+ * ```ts
+ * import { ConsoleTransport } from "./logger-transports.ts";
+ *
+ * const transport = new ConsoleTransport(console.error, { format: "LOGFMT" });
+ * ```
+ */
+export class ConsoleTransport implements Transport {
+  readonly format?: LoggerConfig.Mode;
+
+  constructor(
+    readonly method: (message: string) => void,
+    options: Transports.Options = {},
+  ) {
+    this.format = options.format;
+  }
+
+  public write(message: string) {
+    this.method(message);
+  }
+}
+
+/**
+ * Appends log lines to a file, creating it if it doesn't exist.
+ *
+ * Lines are written synchronously through an open file, so nothing is lost if the
+ * process exits without flushing.
+ *
+ * @example
+ *
+ * ```ts
+ * import { FileTransport } from "./logger-transports.ts";
+ *
+ * const transport = new FileTransport("./app.log", { format: "NDJSON" });
+ *
+ * transport.write("Hello!");
+ * transport.close();
+ * ```
+ */
+export class FileTransport implements Transport {
+  readonly format?: LoggerConfig.Mode;
+  protected file: Deno.FsFile | null = null;
+
+  constructor(readonly path: string, options: Transports.Options = {}) {
+    this.format = options.format;
+  }
+
+  public write(message: string) {
+    this.getFile().writeSync(encoder.encode(message + "\n"));
+  }
+
+  public flush() {
+    this.file?.syncSync();
+  }
+
+  public close() {
+    if (this.file) {
+      this.file.syncSync();
+      this.file.close();
+      this.file = null;
+    }
+  }
+
+  protected getFile() {
+    if (!this.file) {
+      this.file = Deno.openSync(this.path, { append: true, create: true });
+    }
+
+    return this.file;
+  }
+}
+
+/**
+ * Appends log lines to a file that is rotated when it reaches a size or when a new day
+ * (or hour) starts.
+ *
+ * Rotated files are renamed with an increasing number, so `app.log.1` is always the most
+ * recent one. Only `maxFiles` rotated files are kept.
+ *
+ * @example
+ *
+ * ```ts
+ * import { RotatingFileTransport } from "./logger-transports.ts";
+ *
+ * const transport = new RotatingFileTransport("./app.log", {
+ *   maxSize: 1024 * 1024,
+ *   interval: "daily",
+ *   maxFiles: 7,
+ *   format: "NDJSON",
+ * });
+ * ```
+ */
+export class RotatingFileTransport extends FileTransport {
+  readonly options: Required<Omit<Transports.RotatingFileOptions, "format">>;
+  protected size = 0;
+  protected period = "";
+
+  constructor(path: string, options: Transports.RotatingFileOptions = {}) {
+    const { format, ...rotation } = options;
+
+    super(path, { format });
+
+    this.options = { maxSize: Infinity, interval: "never", maxFiles: 5, ...rotation };
+  }
+
+  public write(message: string) {
+    const bytes = encoder.encode(message + "\n");
+    const period = this.getPeriod(new Date());
+
+    if (!this.file) {
+      this.open();
+    }
+
+    if (this.shouldRotate(bytes.length, period)) {
+      this.rotate();
+    }
+
+    this.period = period;
+    this.size += this.getFile().writeSync(bytes);
+  }
+
+  /**
+   * Renames the current file to `<path>.1`, shifting the previous rotated files and
+   * removing the ones over `maxFiles`.
+   */
+  public rotate() {
+    this.close();
+    removeIfExists(`${this.path}.${this.options.maxFiles}`);
+
+    for (let i = this.options.maxFiles - 1; i > 0; i--) {
+      renameIfExists(`${this.path}.${i}`, `${this.path}.${i + 1}`);
+    }
+
+    if (this.options.maxFiles > 0) {
+      renameIfExists(this.path, `${this.path}.1`);
+    } else {
+      removeIfExists(this.path);
+    }
+
+    this.size = 0;
+  }
+
+  protected open() {
+    const info = statIfExists(this.path);
+
+    this.size = info?.size || 0;
+    this.period = info?.mtime ? this.getPeriod(info.mtime) : "";
+  }
+
+  protected shouldRotate(bytes: number, period: string) {
+    if (this.size === 0) {
+      return false;
+    }
+
+    if (this.size + bytes > this.options.maxSize) {
+      return true;
+    }
+
+    return this.options.interval !== "never" && period !== this.period;
+  }
+
+  protected getPeriod(date: Date) {
+    switch (this.options.interval) {
+      case "hourly":
+        return formatDate(date, "yyyy-MM-dd HH");
+      case "daily":
+        return formatDate(date, "yyyy-MM-dd");
+      default:
+        return "";
+    }
+  }
+}
+
+/**
+ * Keeps the latest log lines in memory. Useful to check what was logged in tests.
+ *
+ * When the buffer is full, the oldest entry is dropped to make room for the new one.
+ *
+ * @example
+ *
+ * ```ts
+ * import { Logger } from "./logger.ts";
+ * import { MemoryTransport } from "./logger-transports.ts";
+ *
+ * const memory = new MemoryTransport(10);
+ * const logger = new Logger({
+ *   application: "test",
+ *   environment: "test",
+ *   severity: "DEBUG",
+ *   mode: "JSON",
+ *   transports: { INFO: memory },
+ * });
+ *
+ * logger.info("Hello!");
+ *
+ * console.assert(memory.entries[0].logObject.message === "Hello!");
+ * ```
+ */
+export class MemoryTransport implements Transport {
+  readonly format?: LoggerConfig.Mode;
+  readonly entries: Transports.MemoryEntry[] = [];
+
+  constructor(readonly capacity = 1000, options: Transports.Options = {}) {
+    this.format = options.format;
+  }
+
+  public write(message: string, logObject: LogObject) {
+    this.entries.push({ message, logObject });
+
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity);
+    }
+  }
+
+  /**
+   * The formatted log lines, from the oldest to the newest.
+   */
+  get messages() {
+    return this.entries.map((entry) => entry.message);
+  }
+
+  /**
+   * Removes every entry.
+   */
+  public clear() {
+    this.entries.length = 0;
+  }
+}
+
+export namespace Transports {
+  /**
+   * Options shared by every transport.
+   */
+  export type Options = {
+    /**
+     * The format of the lines written by the transport. Defaults to the `mode` of the
+     * logger.
+     */
+    format?: LoggerConfig.Mode;
+  };
+
+  /**
+   * Options for the {@link RotatingFileTransport}.
+   */
+  export type RotatingFileOptions = Options & {
+    /**
+     * The size in bytes after which the file is rotated.
+     */
+    maxSize?: number;
+    /**
+     * Rotates the file when a new day or hour starts.
+     */
+    interval?: "never" | "daily" | "hourly";
+    /**
+     * The number of rotated files to keep.
+     */
+    maxFiles?: number;
+  };
+
+  /**
+   * A log line kept by the {@link MemoryTransport}.
+   */
+  export type MemoryEntry = {
+    /**
+     * The formatted log line.
+     */
+    message: string;
+    /**
+     * The log object the line was formatted from.
+     */
+    logObject: LogObject;
+  };
+}
+
+function statIfExists(path: string) {
+  try {
+    return Deno.statSync(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return null;
+    }
+
+    throw error;
+  }
+}
+
+function removeIfExists(path: string) {
+  if (statIfExists(path)) {
+    Deno.removeSync(path);
+  }
+}
+
+function renameIfExists(from: string, to: string) {
+  if (statIfExists(from)) {
+    Deno.renameSync(from, to);
+  }
+}
@@ -1,146 +1,327 @@
 // deno-lint-ignore-file no-namespace
+/// <reference path="./global.d.ts" />
 import {
   isErrorStatus,
   isInformationalStatus,
   isRedirectStatus,
   isSuccessfulStatus,
 } from "https://deno.land/std@0.208.0/http/status.ts";
-import ansicolors from "https://esm.sh/ansi-colors@4.1.3";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { ColorLevel, createAnsi, detectColorLevel, stripAnsi } from "./ansi.ts";
 import { ExpandedCallSite, callsites } from "./callsites.ts";
 import { deepMerge, formatDate, z } from "./deps.ts";
+import { Deduplicator, TokenBucket } from "./logger-policies.ts";
+import { RedactionSchema, Redactor } from "./logger-redaction.ts";
+import {
+  createCodeFrame,
+  describeError,
+  type ErrorNode,
+  getErrorCallSites,
+  type StackEntry,
+  StackOptionsSchema,
+  stringifyCallSite,
+} from "./logger-stack.ts";
+import { ConsoleTransport, isTransport, type Transport } from "./logger-transports.ts";
 import type { AllNonNullable, SafeAny } from "./typings.ts";
 
+/**
+ * The pretty output is always styled, and the styles are stripped when the logger has no
+ * colors.
+ */
+const ansi = createAnsi(ColorLevel.TrueColor);
+
+/**
+ * Matches the HTTP version of the pretty template, with its styles and the space before it.
+ */
+const HTTP_VERSION_PLACEHOLDER_REGEX = new RegExp(
+  ` ((?:\u001b\\[[\\d;]*m)*)HTTP/\\{http\\.version\\}`,
+  "g",
+);
+
 export namespace LoggerConfig {
-  export const SeverityName = {
-    Silent: "SILENT",
+  export const LevelName = {
+    Trace: "TRACE",
     Debug: "DEBUG",
-    Informational: "INFORMATIONAL",
-    Warning: "WARNING",
+    Info: "INFO",
+    Http: "HTTP",
+    Warn: "WARN",
     Error: "ERROR",
+    Fatal: "FATAL",
   } as const;
 
-  export const SeverityNameSchema = z.nativeEnum(SeverityName);
+  export const LevelNameSchema = z.string().min(1);
 
-  export type SeverityName = z.output<typeof SeverityNameSchema>;
+  export type LevelName =
+    | (typeof LevelName)[keyof typeof LevelName]
+    | (string & Record<never, never>);
 
-  export const SeverityLevel = {
-    [SeverityName.Silent]: 0,
-    [SeverityName.Debug]: 1,
-    [SeverityName.Informational]: 2,
-    [SeverityName.Warning]: 3,
-    [SeverityName.Error]: 4,
+  export const Severity = {
+    [LevelName.Trace]: 10,
+    [LevelName.Debug]: 20,
+    [LevelName.Info]: 30,
+    [LevelName.Http]: 30,
+    [LevelName.Warn]: 40,
+    [LevelName.Error]: 50,
+    [LevelName.Fatal]: 60,
   } as const;
 
-  export const SeverityLevelSchema = z.nativeEnum(SeverityLevel);
+  export const SeverityName = {
+    Silent: "SILENT",
+    Trace: LevelName.Trace,
+    Debug: LevelName.Debug,
+    Info: LevelName.Info,
+    Warn: LevelName.Warn,
+    Error: LevelName.Error,
+    Fatal: LevelName.Fatal,
+  } as const;
 
-  export type SeverityLevel = z.output<typeof SeverityLevelSchema>;
+  /**
+   * The names the severities had before they were unified with the levels, with the levels
+   * they covered. They're still accepted as thresholds (meaning the first level) and as
+   * transport keys (meaning every level).
+   */
+  export const SeverityAlias: Record<string, LevelName[]> = {
+    INFORMATIONAL: [LevelName.Info, LevelName.Http],
+    WARNING: [LevelName.Warn],
+  };
 
-  export const SeverityNameByLevel = {
-    [SeverityLevel[SeverityName.Silent]]: SeverityName.Silent,
-    [SeverityLevel[SeverityName.Debug]]: SeverityName.Debug,
-    [SeverityLevel[SeverityName.Informational]]: SeverityName.Informational,
-    [SeverityLevel[SeverityName.Warning]]: SeverityName.Warning,
-    [SeverityLevel[SeverityName.Error]]: SeverityName.Error,
-  } as const;
+  /**
+   * A severity threshold: the name of a level, or `SILENT`. The name is case-insensitive.
+   */
+  export const SeverityNameSchema = z
+    .string()
+    .transform((value) => SeverityAlias[value.toUpperCase()]?.[0] || value.toUpperCase());
+
+  export type SeverityName = z.input<typeof SeverityNameSchema>;
+
+  /**
+   * A comma-separated list of thresholds, like `INFO,process:DEBUG,git:WARNING`. Entries
+   * without a module set the default threshold.
+   */
+  export const SeveritySpecSchema = z
+    .string()
+    .transform(parseSeveritySpec)
+    .pipe(
+      z.object({
+        severity: z.nativeEnum(SeverityName),
+        modules: z.record(z.nativeEnum(SeverityName)),
+      }),
+    );
 
-  export const LevelName = {
-    Error: "ERROR",
-    Warn: "WARN",
-    Info: "INFO",
-    Http: "HTTP",
-    Debug: "DEBUG",
-  } as const;
+  export type SeveritySpec = z.output<typeof SeveritySpecSchema>;
 
-  export const LevelNameSchema = z.nativeEnum(LevelName);
+  function parseSeveritySpec(spec: string) {
+    const modules: Record<string, string> = {};
+    let severity: string = LevelName.Info;
 
-  export type LevelName = z.output<typeof LevelNameSchema>;
+    for (const entry of spec.split(",")) {
+      const [module, name] = entry.includes(":") ? entry.split(":") : ["", entry];
+      const value = SeverityNameSchema.parse(name.trim());
+
+      if (module.trim()) {
+        modules[module.trim()] = value;
+      } else if (value) {
+        severity = value;
+      }
+    }
+
+    return { severity, modules };
+  }
 
   export const Mode = {
     Pretty: "PRETTY",
     Json: "JSON",
+    Ndjson: "NDJSON",
+    Logfmt: "LOGFMT",
   } as const;
 
   export const ModeSchema = z.nativeEnum(Mode);
 
   export type Mode = z.output<typeof ModeSchema>;
 
-  export const TransportSchema = z.function().returns(z.void());
+  export const JsonStyle = {
+    Flat: "FLAT",
+    Nested: "NESTED",
+  } as const;
+
+  export const JsonStyleSchema = z.nativeEnum(JsonStyle);
+
+  export type JsonStyle = z.output<typeof JsonStyleSchema>;
+
+  export const EcsVersion = "8.11.0";
+
+  export const TransportSchema = z
+    .union([
+      z.custom<Transport>(isTransport),
+      z.custom<(message: string) => void>((value) => typeof value === "function"),
+    ])
+    .transform((value) => (isTransport(value) ? value : new ConsoleTransport(value)));
+
+  export const TransportListSchema = z.preprocess(
+    (value) => (Array.isArray(value) ? value : [value]),
+    z.array(TransportSchema),
+  );
 
-  export const TransportsSchema = z.object({
-    [SeverityName.Silent]: TransportSchema,
-    [SeverityName.Debug]: TransportSchema,
-    [SeverityName.Informational]: TransportSchema,
-    [SeverityName.Warning]: TransportSchema,
-    [SeverityName.Error]: TransportSchema,
+  export const TransportsSchema = z.preprocess((value) => {
+    const entries = Object.entries(value || {});
+    const transports: Record<string, unknown> = {};
+
+    for (const [key, transport] of entries) {
+      SeverityAlias[key]?.forEach((level) => (transports[level] = transport));
+    }
+
+    for (const [key, transport] of entries) {
+      if (!SeverityAlias[key]) transports[key] = transport;
+    }
+
+    return transports;
+  }, z.record(LevelNameSchema, TransportListSchema));
+
+  export const LevelSchema = z.object({
+    severity: z.number(),
+    color: z
+      .custom<(text: string) => string>((value) => typeof value === "function")
+      .default(() => ansi.bold),
+    transport: TransportListSchema.optional(),
   });
 
-  export const TransportDefaults = {
-    [SeverityName.Silent]: doNothing,
-    [SeverityName.Debug]: console.debug,
-    [SeverityName.Informational]: console.info,
-    [SeverityName.Warning]: console.warn,
-    [SeverityName.Error]: console.error,
+  export type LevelInput = z.input<typeof LevelSchema>;
+
+  export type Level = z.output<typeof LevelSchema>;
+
+  export const DefaultLevels: Record<string, LevelInput> = {
+    [LevelName.Trace]: {
+      severity: Severity.TRACE,
+      color: ansi.bold.gray,
+      transport: [console.debug],
+    },
+    [LevelName.Debug]: {
+      severity: Severity.DEBUG,
+      color: ansi.bold.blue,
+      transport: [console.debug],
+    },
+    [LevelName.Info]: {
+      severity: Severity.INFO,
+      color: ansi.bold.green,
+      transport: [console.info],
+    },
+    [LevelName.Http]: {
+      severity: Severity.HTTP,
+      color: ansi.bold.cyan,
+      transport: [console.info],
+    },
+    [LevelName.Warn]: {
+      severity: Severity.WARN,
+      color: ansi.bold.yellow,
+      transport: [console.warn],
+    },
+    [LevelName.Error]: {
+      severity: Severity.ERROR,
+      color: ansi.bold.red,
+      transport: [console.error],
+    },
+    [LevelName.Fatal]: {
+      severity: Severity.FATAL,
+      color: ansi.bold.bgRed.white,
+      transport: [console.error],
+    },
   };
 
-  function doNothing(..._: SafeAny[]) {
-    return;
-  }
+  /**
+   * The levels of a logger: the default ones, plus any custom level. The properties given
+   * for a default level replace the default ones.
+   */
+  export const LevelsSchema = z.preprocess((value) => {
+    const levels: Record<string, unknown> = { ...DefaultLevels };
+
+    for (const [name, level] of Object.entries(value || {})) {
+      levels[name] = { ...DefaultLevels[name], ...level };
+    }
 
-  const sharedTemplate = `${ansicolors.bold.dim(
-    "{@timestamp}",
-  )} {log.level} [${ansicolors.bold.white("{log.logger}")}]`;
+    return levels;
+  }, z.record(LevelNameSchema, LevelSchema));
 
-  const prettyTemplate = `${sharedTemplate} ${ansicolors.dim(
+  const sharedTemplate = `${ansi.bold.dim("{@timestamp}")} {log.level} [${ansi.bold.white(
+    "{log.logger}",
+  )}]`;
+
+  const prettyTemplate = `${sharedTemplate} {context}${ansi.dim(
     "{log.origin.file.path}:{log.origin.file.line}:{log.origin.file.column}",
-  )} ${ansicolors.yellow("{message}")} {data}`;
+  )} ${ansi.yellow("{message}")} {data}`;
 
-  const prettyHttpTemplate = `${sharedTemplate} "${ansicolors.bold.greenBright(
+  const prettyHttpTemplate = `${sharedTemplate} {context}"${ansi.bold.greenBright(
     "{http.request.method} {http.request.url.original}",
-  )} ${ansicolors.bold.green.dim(
+  )} ${ansi.bold.green.dim(
     "HTTP/{http.version}",
-  )}" {http.response.status_code} ${ansicolors.bold.dim("{event.duration}ms")}`;
+  )}" {http.response.status_code} ${ansi.bold.dim("{event.duration}ms")}`;
 
-  const prettyErrorTemplate = `${sharedTemplate} ${ansicolors.dim(
+  const prettyErrorTemplate = `${sharedTemplate} {context}${ansi.dim(
     "{log.origin.file.path}:{log.origin.file.line}:{log.origin.file.column}",
-  )} ${ansicolors.yellow("{message}")}\n${ansicolors.bold.bgRed(
-    "{error.id}",
-  )}: ${ansicolors.bold("{error.message}")} {error.stack_trace}`;
-
-  export const Theme = {
-    [LevelName.Error]: ansicolors.bold.red,
-    [LevelName.Warn]: ansicolors.bold.yellow,
-    [LevelName.Info]: ansicolors.bold.green,
-    [LevelName.Http]: ansicolors.bold.cyan,
-    [LevelName.Debug]: ansicolors.bold.blue,
-  } as const;
+  )} ${ansi.yellow("{message}")}\n${ansi.bold.bgRed("{error.id}")}: ${ansi.bold(
+    "{error.message}",
+  )} {error.stack_trace}`;
 
   export const HttpStatusTheme = {
-    Informational: ansicolors.bold.cyan,
-    Successful: ansicolors.bold.cyan,
-    Redirection: ansicolors.bold.yellow,
-    Error: ansicolors.bold.red,
-    Default: ansicolors.bold,
+    Informational: ansi.bold.cyan,
+    Successful: ansi.bold.cyan,
+    Redirection: ansi.bold.yellow,
+    Error: ansi.bold.red,
+    Default: ansi.bold,
   } as const;
 
+  export const ContextSchema = z.object({
+    labels: z.record(z.string()).optional(),
+    tags: z.array(z.string()).optional(),
+  });
+
+  export type Context = z.input<typeof ContextSchema>;
+
+  export type Span = {
+    id: string;
+    name: string;
+    parentId?: string;
+  };
+
+  export type Scope = Context & {
+    requestId?: string;
+    traceId?: string;
+    span?: Span;
+  };
+
   export const SettingsSchema = z.object({
     severity: SeverityNameSchema,
+    modules: z.record(SeverityNameSchema).default({}),
+    levels: LevelsSchema,
     application: z.string(),
     environment: z.string(),
     module: z.string().optional(),
     id: z.string().optional(),
     version: z.string().optional(),
+    labels: z.record(z.string()).default({}),
+    tags: z.array(z.string()).default([]),
     padding: z
       .number()
       .int()
       .default(LevelName.Debug.length + 1),
     mode: ModeSchema,
-    transports: TransportsSchema.default(TransportDefaults),
+    sampling: z.record(LevelNameSchema, z.number().min(0).max(1)).default({}),
+    rateLimit: z
+      .object({ limit: z.number().int().positive(), interval: z.number().positive() })
+      .optional(),
+    deduplication: z.object({ window: z.number().positive() }).optional(),
+    redaction: RedactionSchema.default({}),
+    stack: StackOptionsSchema.default({}),
+    jsonStyle: JsonStyleSchema.default(JsonStyle.Flat),
+    transports: TransportsSchema.default({}),
     prettyTemplate: z.string().default(prettyTemplate),
     prettyErrorTemplate: z.string().default(prettyErrorTemplate),
     prettyHttpTemplate: z.string().default(prettyHttpTemplate),
-    inspectOptions: z.custom<Deno.InspectOptions>().default({
-      colors: true,
-    }),
+    /**
+     * Whether the pretty output is colored. Defaults to the color support of the standard
+     * output, which honours `NO_COLOR`, `FORCE_COLOR` and `TERM=dumb`.
+     */
+    colors: z.boolean().default(() => detectColorLevel() > ColorLevel.None),
+    inspectOptions: z.custom<Deno.InspectOptions>().default({}),
   });
 
   export type SettingsInput = z.input<typeof SettingsSchema>;
@@ -148,7 +329,7 @@ export namespace LoggerConfig {
   export type Settings = z.output<typeof SettingsSchema>;
 }
 
-namespace LogObject {
+export namespace LogObject {
   export type Error = {
     code?: string;
     id?: string;
@@ -180,7 +361,8 @@ export class LogObject {
   #request?: LogObject.Request;
   #response?: LogObject.Response;
 
-  readonly "@timestamp" = formatDate(new Date(), "yyyy-MM-dd HH:mm:ss.SSS");
+  readonly "@timestamp" = new Date().toISOString();
+  readonly "ecs.version" = LoggerConfig.EcsVersion;
   public "log.level": LoggerConfig.LevelName = "" as LoggerConfig.LevelName;
   public "message" = "";
   public "data": LogObject.OptionalField<Array<unknown>> = undefined;
@@ -194,12 +376,18 @@ export class LogObject {
   public "error.code": LogObject.OptionalField<string> = undefined;
   public "error.id": LogObject.OptionalField<string> = undefined;
   public "error.message": LogObject.OptionalField<string> = undefined;
-  public "error.stack_trace": LogObject.OptionalField<ExpandedCallSite[]> = undefined;
+  public "error.stack_trace": LogObject.OptionalField<StackEntry[]> = undefined;
   public "error.type": LogObject.OptionalField<string> = undefined;
+  public "error.cause": LogObject.OptionalField<ErrorNode> = undefined;
+  public "error.errors": LogObject.OptionalField<ErrorNode[]> = undefined;
   public "service.name": LogObject.OptionalField<string> = undefined;
   public "service.version": LogObject.OptionalField<string> = undefined;
   public "service.environment": LogObject.OptionalField<string> = undefined;
   public "service.id": LogObject.OptionalField<string> = undefined;
+  public "trace.id": LogObject.OptionalField<string> = undefined;
+  public "span.id": LogObject.OptionalField<string> = undefined;
+  public "span.name": LogObject.OptionalField<string> = undefined;
+  public "span.parent.id": LogObject.OptionalField<string> = undefined;
   readonly "process.args" = Deno.args;
   public "event.duration": LogObject.OptionalField<number> = undefined;
   public "http.version": LogObject.OptionalField<string> = undefined;
@@ -254,18 +442,34 @@ export class LogObject {
     this["error.type"] = error?.name;
 
     if (error instanceof Error) {
-      this["error.stack_trace"] = callsites(error);
+      this["error.stack_trace"] = getErrorCallSites(error);
     }
 
     return this;
   }
 
-  public "setLogFields"(level: LoggerConfig.LevelName, logger: string) {
-    const cs = callsites(this.#error instanceof Error ? this.#error : undefined);
-    const origin = cs[cs.length - 1] as AllNonNullable<ExpandedCallSite>;
+  public "setErrorNodeFields"(node: ErrorNode) {
+    this["error.stack_trace"] = node.stack_trace;
+    this["error.cause"] = node.cause;
+    this["error.errors"] = node.errors;
+
+    return this;
+  }
+
+  public "setLogFields"(
+    level: LoggerConfig.LevelName,
+    logger: string,
+    origin?: AllNonNullable<ExpandedCallSite>,
+  ) {
+    origin ??= getLogOrigin(this.#error);
 
     this["log.level"] = level;
     this["log.logger"] = logger;
+
+    if (!origin) {
+      return this;
+    }
+
     this["log.origin.file.column"] = origin.columnNumber;
     this["log.origin.file.line"] = origin.lineNumber;
     this["log.origin.file.name"] = origin.fileName.substring(
@@ -281,7 +485,7 @@ export class LogObject {
     this["http.request.id"] = request.id;
     this["http.request.method"] = request.method;
     this["http.request.mime_type"] = request.get("content-type");
-    this["http.request.referrer"] = request.get("referrer");
+    this["http.request.referrer"] = request.get("referer");
     this["http.request.url.original"] = request.originalUrl;
 
     return this;
@@ -295,6 +499,27 @@ export class LogObject {
     return this;
   }
 
+  public "setTraceFields"(requestId?: string, traceId?: string) {
+    this["http.request.id"] ??= requestId;
+    this["trace.id"] = traceId;
+
+    return this;
+  }
+
+  public "setSpanFields"(span?: LoggerConfig.Span) {
+    this["span.id"] = span?.id;
+    this["span.name"] = span?.name;
+    this["span.parent.id"] = span?.parentId;
+
+    return this;
+  }
+
+  public "setDurationField"(duration?: number) {
+    this["event.duration"] ??= duration;
+
+    return this;
+  }
+
   public "setServiceFields"(
     environment: string,
     name?: string,
@@ -310,47 +535,233 @@ export class LogObject {
   }
 }
 
+/**
+ * Context added to a single log call with {@link withContext}.
+ */
+export class LogContext {
+  constructor(readonly context: LoggerConfig.Context) {}
+}
+
+/**
+ * Creates context for a single log call. Pass it as one of the arguments of the log method
+ * and it's merged with the labels and tags bound to the logger, instead of being logged as
+ * data.
+ *
+ * @param context - The labels and tags of the log.
+ * @returns The context, to be passed to a log method.
+ *
+ * @example
+ *
+ * ```ts
+ * import { withContext } from "./logger.ts";
+ *
+ * logger.info("Deployed", withContext({ labels: { region: "eu" }, tags: ["deploy"] }));
+ * ```
+ */
+export function withContext(context: LoggerConfig.Context) {
+  return new LogContext(context);
+}
+
+const scopeStorage = new AsyncLocalStorage<LoggerConfig.Scope>();
+
+/**
+ * Runs a function inside a logging scope. Every log written while the function runs,
+ * including the ones in asynchronous callbacks, gets the request id, trace id, labels and
+ * tags of the scope.
+ *
+ * Scopes can be nested: the inner scope inherits the labels and tags of the outer one.
+ *
+ * @param scope - The context of the scope.
+ * @param fn - The function to run.
+ * @returns The value returned by `fn`.
+ *
+ * @example
+ *
+ * ```ts
+ * import { runInLogScope } from "./logger.ts";
+ *
+ * Deno.serve((request) =>
+ *   runInLogScope({ requestId: crypto.randomUUID() }, async () => {
+ *     logger.info("Handling request");
+ *
+ *     return new Response("OK");
+ *   }),
+ * );
+ * ```
+ */
+export function runInLogScope<T>(scope: LoggerConfig.Scope, fn: () => T) {
+  const parent = getLogScope() || {};
+
+  return scopeStorage.run({ ...parent, ...scope, ...mergeContexts(parent, scope) }, fn);
+}
+
+/**
+ * Gets the context of the current logging scope.
+ *
+ * @returns The context of the scope, or `undefined` outside of {@link runInLogScope}.
+ */
+export function getLogScope() {
+  return scopeStorage.getStore();
+}
+
 type LogOptions = {
   message: string;
   args?: unknown[];
   error?: LogObject.Error;
   request?: LogObject.Request;
   response?: LogObject.Response;
+  duration?: number;
+  origin?: AllNonNullable<ExpandedCallSite>;
+};
+
+type LogRepetition = {
+  level: LoggerConfig.LevelName;
+  origin?: AllNonNullable<ExpandedCallSite>;
 };
 
-abstract class BaseLogger {
+export class Logger {
   public settings: LoggerConfig.Settings;
-  public severityLevel: LoggerConfig.SeverityLevel;
+  public severityLevel: number;
+  #formatters = new Map<LoggerConfig.Mode, Formatter>();
+  #transports = new Map<LoggerConfig.LevelName, Transport[]>();
+  #rateLimiter?: TokenBucket;
+  #deduplicator?: Deduplicator<LogRepetition>;
+  #redactor: Redactor;
+  #timers = new Map<string, number>();
 
   constructor(settings: LoggerConfig.SettingsInput) {
     this.settings = LoggerConfig.SettingsSchema.parse(settings);
-    this.severityLevel = LoggerConfig.SeverityLevel[this.settings.severity];
+    this.severityLevel = this.getThreshold();
+    this.#redactor = new Redactor(this.settings.redaction);
+
+    if (this.settings.rateLimit) {
+      const { limit, interval } = this.settings.rateLimit;
+
+      this.#rateLimiter = new TokenBucket(limit, interval);
+    }
+
+    if (this.settings.deduplication) {
+      this.#deduplicator = new Deduplicator(this.settings.deduplication.window);
+    }
   }
 
-  protected abstract format(logObject: LogObject): string;
+  protected getFormatter(mode: LoggerConfig.Mode) {
+    let formatter = this.#formatters.get(mode);
 
-  protected isSilentMode(severity: LoggerConfig.SeverityLevel) {
-    if (this.settings.severity === LoggerConfig.SeverityName.Silent) {
-      return true;
+    if (!formatter) {
+      formatter = new FormatterByMode[mode](this.settings);
+      this.#formatters.set(mode, formatter);
     }
 
-    return severity < this.severityLevel;
+    return formatter;
   }
 
-  protected log(
-    severity: LoggerConfig.SeverityLevel,
-    level: LoggerConfig.LevelName,
-    options: LogOptions,
-  ) {
+  /**
+   * Gets the severity below which logs are skipped. The threshold of the module (or the
+   * application) of the logger takes precedence over the default one.
+   */
+  protected getThreshold() {
+    const { application, module, modules, severity } = this.settings;
+    const name = (module && modules[module]) || modules[application] || severity;
+
+    return name === LoggerConfig.SeverityName.Silent
+      ? Infinity
+      : this.getLevel(name).severity;
+  }
+
+  protected isSilentMode(level: LoggerConfig.LevelName) {
+    return this.getLevel(level).severity < this.severityLevel;
+  }
+
+  protected getLevel(level: LoggerConfig.LevelName) {
+    const definition = this.settings.levels[level];
+
+    if (!definition) {
+      throw new Error(`The level ${level} isn't defined in the logger.`);
+    }
+
+    return definition;
+  }
+
+  protected emit(level: LoggerConfig.LevelName, options: LogOptions) {
+    options = { ...options, origin: options.origin ?? getLogOrigin(options.error) };
+
+    // The policies write the repetitions of the previous log, which come before this one.
+    const allowed = !this.isSilentMode(level) && this.applyPolicies(level, options);
+    const logObject = this.createLogObject(level, options);
+
+    if (allowed) {
+      this.write(level, logObject);
+    }
+
+    return logObject;
+  }
+
+  /**
+   * Decides if a log should be written according to the sampling, rate limit and
+   * deduplication settings.
+   */
+  protected applyPolicies(level: LoggerConfig.LevelName, options: LogOptions) {
+    const rate = this.settings.sampling[level];
+
+    if (rate !== undefined && Math.random() >= rate) {
+      return false;
+    }
+
+    const key = `${level}:${options.message}`;
+
+    if (this.#deduplicator) {
+      const { duplicate, repeated } = this.#deduplicator.track(key, {
+        level,
+        origin: options.origin,
+      });
+
+      if (duplicate) {
+        return false;
+      }
+
+      this.writeRepetitions(repeated);
+    }
+
+    return this.#rateLimiter ? this.#rateLimiter.take(key) : true;
+  }
+
+  protected writeRepetitions(repeated: Deduplicator.Result<LogRepetition>["repeated"]) {
+    if (!repeated) return;
+
+    const { level, origin } = repeated.payload;
+    const message = `The previous message was repeated ${repeated.count} more time(s).`;
+
+    this.write(level, this.createLogObject(level, { message, args: [], origin }));
+  }
+
+  protected createLogObject(level: LoggerConfig.LevelName, options: LogOptions) {
     let loggerName = this.settings.application;
 
     if (this.settings.module) {
       loggerName += `:${this.settings.module}`;
     }
 
+    const contexts = options.args?.filter(isLogContext) || [];
+    const args = options.args?.filter((arg) => !isLogContext(arg));
+    const scope = getLogScope() || {};
+    const { labels, tags } = mergeContexts(
+      this.settings,
+      scope,
+      ...contexts.map((c) => c.context),
+    );
+    const redactor = this.#redactor;
     const logObject = new LogObject(options.error, options.request, options.response)
-      .setBaseFields(options.message, options.args)
-      .setLogFields(level, loggerName)
+      .setBaseFields(
+        redactor.redactString(options.message),
+        args?.map((arg) => redactor.redact(arg)),
+        Object.keys(labels).length > 0 ? redactor.redact(labels) : undefined,
+        tags.length > 0 ? tags : undefined,
+      )
+      .setLogFields(level, loggerName, options.origin)
+      .setTraceFields(scope.requestId, scope.traceId)
+      .setSpanFields(scope.span)
+      .setDurationField(options.duration)
       .setServiceFields(
         this.settings.environment,
         this.settings.application,
@@ -358,83 +769,365 @@ abstract class BaseLogger {
         this.settings.id,
       );
 
-    if (this.isSilentMode(severity)) {
-      return logObject;
+    if (logObject["error.message"]) {
+      logObject["error.message"] = redactor.redactString(logObject["error.message"]);
     }
 
-    const formatted = this.format(logObject);
-    const transport =
-      this.settings.transports[LoggerConfig.SeverityNameByLevel[severity]];
-
-    transport(formatted);
+    if (options.error instanceof Error) {
+      logObject.setErrorNodeFields(
+        describeError(options.error, this.settings.stack, (text) =>
+          redactor.redactString(text),
+        ),
+      );
+    }
 
     return logObject;
   }
 
+  protected write(level: LoggerConfig.LevelName, logObject: LogObject) {
+    const transports = this.getLevelTransports(level);
+    const formatted: Partial<Record<LoggerConfig.Mode, string>> = {};
+
+    for (const transport of transports) {
+      const mode = transport.format || this.settings.mode;
+
+      formatted[mode] ??= this.getFormatter(mode).format(logObject);
+      transport.write(formatted[mode] as string, logObject);
+    }
+  }
+
+  /**
+   * Writes the log lines buffered by the transports. Call it before the process exits.
+   */
+  public async flush() {
+    this.writeRepetitions(this.#deduplicator?.drain());
+    await Promise.all(this.getTransports().map((transport) => transport.flush?.()));
+  }
+
+  /**
+   * Flushes the transports and releases their resources, like open files.
+   */
+  public async close() {
+    this.writeRepetitions(this.#deduplicator?.drain());
+    await Promise.all(this.getTransports().map((transport) => transport.close?.()));
+  }
+
+  protected getTransports() {
+    const levels = Object.keys(this.settings.levels);
+
+    return [...new Set(levels.flatMap((level) => this.getLevelTransports(level)))];
+  }
+
+  /**
+   * Gets the transports of a level: the ones set in `transports`, or else the ones of the
+   * level definition, or else the console method that matches its severity.
+   */
+  protected getLevelTransports(level: LoggerConfig.LevelName) {
+    let transports = this.#transports.get(level);
+
+    if (!transports) {
+      const { severity, transport } = this.getLevel(level);
+
+      transports = this.settings.transports[level] ||
+        transport || [new ConsoleTransport(getConsoleMethod(severity))];
+      this.#transports.set(level, transports);
+    }
+
+    return transports;
+  }
+
+  /**
+   * Logs a message with any level, including the custom ones.
+   *
+   * @param level - The name of the level.
+   * @param message - The message to log.
+   * @param args - Additional data to log.
+   * @returns The log object.
+   *
+   * @example
+   *
+   * ```ts
+   * import { Logger } from "./logger.ts";
+   *
+   * const logger = new Logger({
+   *   application: "app",
+   *   environment: "test",
+   *   severity: "INFO",
+   *   mode: "PRETTY",
+   *   levels: { NOTICE: { severity: 35, color: (text) => `*${text}*` } },
+   * });
+   *
+   * logger.log("NOTICE", "Something worth noticing");
+   * ```
+   */
+  public log(level: LoggerConfig.LevelName, message: string, ...args: unknown[]) {
+    return this.emit(level, { message, args });
+  }
+
+  public trace(message: string, ...args: unknown[]) {
+    return this.emit(LoggerConfig.LevelName.Trace, { message, args });
+  }
+
   public debug(message: string, ...args: unknown[]) {
-    return this.log(LoggerConfig.SeverityLevel.DEBUG, LoggerConfig.LevelName.Debug, {
-      message,
-      args,
-    });
+    return this.emit(LoggerConfig.LevelName.Debug, { message, args });
   }
 
   public info(message: string, ...args: unknown[]) {
-    return this.log(
-      LoggerConfig.SeverityLevel.INFORMATIONAL,
-      LoggerConfig.LevelName.Info,
-      {
-        message,
-        args,
-      },
-    );
+    return this.emit(LoggerConfig.LevelName.Info, { message, args });
   }
 
   public http(request: LogObject.Request, response: LogObject.Response) {
-    return this.log(
-      LoggerConfig.SeverityLevel.INFORMATIONAL,
-      LoggerConfig.LevelName.Http,
-      {
-        request,
-        response,
-        message: "",
-      },
-    );
+    return this.emit(LoggerConfig.LevelName.Http, { request, response, message: "" });
   }
 
   public warn(message: string, ...args: unknown[]) {
-    return this.log(LoggerConfig.SeverityLevel.WARNING, LoggerConfig.LevelName.Warn, {
+    return this.emit(LoggerConfig.LevelName.Warn, { message, args });
+  }
+
+  public error(message: string, ...args: unknown[]) {
+    const [error] = args.filter((arg) => !isLogContext(arg));
+
+    return this.emit(LoggerConfig.LevelName.Error, {
       message,
       args,
+      error: error as LogObject.Error,
     });
   }
 
-  public error(message: string, ...args: unknown[]) {
-    const [error] = args;
+  public fatal(message: string, ...args: unknown[]) {
+    const [error] = args.filter((arg) => !isLogContext(arg));
 
-    return this.log(LoggerConfig.SeverityLevel.ERROR, LoggerConfig.LevelName.Error, {
+    return this.emit(LoggerConfig.LevelName.Fatal, {
       message,
       args,
       error: error as LogObject.Error,
     });
   }
 
+  /**
+   * Starts a timer that can be stopped with {@link Logger.timeEnd}.
+   *
+   * @param label - The name of the timer.
+   */
+  public time(label: string) {
+    if (this.#timers.has(label)) {
+      this.warn(`The timer ${label} already exists.`);
+      return;
+    }
+
+    this.#timers.set(label, performance.now());
+  }
+
+  /**
+   * Stops a timer started with {@link Logger.time} and logs how long it took, with the
+   * duration in `event.duration`.
+   *
+   * @param label - The name of the timer.
+   * @param args - Additional data to log.
+   * @returns The log object, or `undefined` if the timer doesn't exist.
+   *
+   * @example
+   *
+   * ```ts
+   * logger.time("build");
+   * await build();
+   * logger.timeEnd("build");
+   * ```
+   */
+  public timeEnd(label: string, ...args: unknown[]) {
+    const start = this.#timers.get(label);
+
+    if (start === undefined) {
+      this.warn(`The timer ${label} doesn't exist.`);
+      return;
+    }
+
+    const duration = performance.now() - start;
+
+    this.#timers.delete(label);
+
+    return this.emit(LoggerConfig.LevelName.Info, {
+      message: `${label}: ${formatDuration(duration)}`,
+      args,
+      duration,
+    });
+  }
+
+  /**
+   * Runs a function inside a span, logging when it starts and ends with the time it took.
+   *
+   * Every log written while the function runs gets the id and name of the span. Spans can
+   * be nested, and each span keeps the id of its parent. If the function throws, or the
+   * promise it returns is rejected, the error is logged with the span context and thrown
+   * again.
+   *
+   * @param name - The name of the span.
+   * @param fn - The function to measure. It can be asynchronous.
+   * @returns The value returned by `fn`.
+   *
+   * @example
+   *
+   * ```ts
+   * const changelog = await logger.span("changelog", async () => {
+   *   const commits = logger.span("commits", () => git.log());
+   *
+   *   return await render(commits);
+   * });
+   * ```
+   */
+  public span<T>(name: string, fn: () => T): T {
+    const parent = getLogScope()?.span;
+    const span = { id: createSpanId(), name, parentId: parent?.id };
+    // The span may end in a callback of the promise, which has no frame of the caller.
+    const origin = findOrigin(callsites());
+
+    return runInLogScope({ span }, () => {
+      const start = performance.now();
+      const end = (error?: unknown) =>
+        this.endSpan(span, performance.now() - start, origin, error);
+
+      this.emit(LoggerConfig.LevelName.Debug, { message: `Started ${name}.`, origin });
+
+      let result: T;
+
+      try {
+        result = fn();
+      } catch (error) {
+        end(error);
+        throw error;
+      }
+
+      if (result instanceof Promise) {
+        return result.then(
+          (value) => {
+            end();
+            return value;
+          },
+          (error) => {
+            end(error);
+            throw error;
+          },
+        ) as T;
+      }
+
+      end();
+
+      return result;
+    });
+  }
+
+  protected endSpan(
+    span: LoggerConfig.Span,
+    duration: number,
+    origin?: AllNonNullable<ExpandedCallSite>,
+    error?: unknown,
+  ) {
+    if (error === undefined) {
+      return this.emit(LoggerConfig.LevelName.Info, {
+        message: `Finished ${span.name} in ${formatDuration(duration)}.`,
+        args: [],
+        duration,
+        origin,
+      });
+    }
+
+    return this.emit(LoggerConfig.LevelName.Error, {
+      message: `Failed ${span.name} after ${formatDuration(duration)}.`,
+      args: [error],
+      error: error as LogObject.Error,
+      duration,
+      origin,
+    });
+  }
+
+  /**
+   * Creates a logger with the same setup that adds the given labels and tags to every log.
+   *
+   * @param bindings - The labels and tags to add. They're merged with the ones already
+   * bound to this logger.
+   * @returns The child logger.
+   *
+   * @example
+   *
+   * ```ts
+   * const requestLogger = logger.child({ labels: { requestId: "1234" }, tags: ["http"] });
+   *
+   * requestLogger.info("Handling request");
+   * ```
+   */
+  public child(bindings: LoggerConfig.Context) {
+    return this.getSubLogger(mergeContexts(this.settings, bindings));
+  }
+
   public getSubLogger(settings: Partial<LoggerConfig.SettingsInput>) {
-    const newSettings = deepMerge(this.settings, settings);
+    const newSettings = deepMerge(this.settings, settings, { arrays: "replace" });
 
     // @ts-ignore: ¯\_(ツ)_/¯
     return new this.constructor(newSettings) as typeof this;
   }
 }
 
-class PrettyLogger extends BaseLogger {
+abstract class Formatter {
+  constructor(readonly settings: LoggerConfig.Settings) {}
+
+  public abstract format(logObject: LogObject): string;
+}
+
+class PrettyFormatter extends Formatter {
+  #redactor = new Redactor(this.settings.redaction);
+
   protected inspect(data: unknown) {
-    return Deno.inspect(data, this.settings.inspectOptions);
+    return Deno.inspect(data, {
+      colors: this.settings.colors,
+      ...this.settings.inspectOptions,
+    });
+  }
+
+  protected prettifyContext(log: LogObject) {
+    const tags = (log.tags || []).map((tag) => `#${tag}`);
+    const labels = Object.entries(log.labels || {}).map(([k, v]) => `${k}=${v}`);
+    const context = tags.concat(labels).join(" ");
+
+    return context ? `${ansi.cyan(context)} ` : "";
   }
 
-  protected prettifyStack(cs: ExpandedCallSite) {
+  protected prettifyStack(cs: StackEntry) {
     const value = `${cs.fileName}:${cs.lineNumber}:${cs.columnNumber}`;
+    const collapsed = cs.collapsed ? ansi.dim(` (+${cs.collapsed} remote frames)`) : "";
 
-    return ansicolors.yellow(`  • ${ansicolors.underline(value)}`);
+    return ansi.yellow(`  • ${ansi.underline(value)}`) + collapsed;
+  }
+
+  protected prettifyCodeFrame(stack: StackEntry[]) {
+    const { codeFrame, codeFrameLines } = this.settings.stack;
+
+    for (const cs of codeFrame ? stack : []) {
+      const frame = createCodeFrame(cs, codeFrameLines);
+
+      if (frame) {
+        return ansi.dim(this.#redactor.redactString(frame).replace(/^/gm, "    "));
+      }
+    }
+
+    return "";
+  }
+
+  protected prettifyErrorNode(node: ErrorNode, indentation = ""): string[] {
+    const lines = node.stack_trace.map((cs) => indentation + this.prettifyStack(cs));
+    const prettifyChild = (title: string, child: ErrorNode) => {
+      const heading = ansi.bold(`${child.type}: ${child.message}`);
+
+      lines.push(`${indentation}  ${ansi.dim(title)} ${heading}`);
+      lines.push(...this.prettifyErrorNode(child, `${indentation}  `));
+    };
+
+    if (node.cause) {
+      prettifyChild("Caused by:", node.cause);
+    }
+
+    node.errors?.forEach((error, index) => prettifyChild(`[${index}]`, error));
+
+    return lines;
   }
 
   protected substitute(value: string, substitutions: Record<string, SafeAny>): string {
@@ -451,18 +1144,48 @@ class PrettyLogger extends BaseLogger {
   protected applyTemplate(template: string, log: LogObject) {
     const args = log.data ? log.data.map(this.inspect.bind(this)).join("\n") : "";
     const stack = log["error.stack_trace"]
-      ? log["error.stack_trace"].map(this.prettifyStack).join("\n")
+      ? [
+          this.prettifyCodeFrame(log["error.stack_trace"]),
+          ...this.prettifyErrorNode({
+            type: log["error.type"] || "Error",
+            message: log["error.message"] || "",
+            stack_trace: log["error.stack_trace"],
+            cause: log["error.cause"],
+            errors: log["error.errors"],
+          }),
+        ]
+          .filter(Boolean)
+          .join("\n")
       : "";
 
+    // Substituted with the fields in a single pass, so the placeholders written in the
+    // message, the labels or the data aren't expanded.
+    const substitutions: Record<string, SafeAny> = {
+      ...log,
+      "@timestamp": formatDate(new Date(log["@timestamp"]), "yyyy-MM-dd HH:mm:ss.SSS"),
+      "context": this.prettifyContext(log),
+    };
+
     if (args) {
-      template = template.replaceAll("{data}", `\n${args}`);
+      substitutions.data = `\n${args}`;
+    } else {
+      template = template.replaceAll("{data}", "");
     }
 
     if (stack) {
-      template = template.replaceAll("{error.stack_trace}", `\n${stack}`);
+      substitutions["error.stack_trace"] = `\n${stack}`;
+    }
+
+    if (!substitutions.context) {
+      template = template.replaceAll("{context}", "");
+    }
+
+    if (!log["http.version"]) {
+      // The version of the requests adapted from the Fetch API is unknown.
+      template = template.replace(HTTP_VERSION_PLACEHOLDER_REGEX, "$1");
     }
 
-    return this.substitute(template, log);
+    return this.substitute(template, substitutions);
   }
 
   protected getStatusColor(status: number) {
@@ -486,11 +1209,12 @@ class PrettyLogger extends BaseLogger {
   }
 
   protected getPrettyTemplate(level: LoggerConfig.LevelName, status?: number) {
-    const spaces = " ".repeat(this.settings.padding - level.length);
+    const { color, severity } = this.settings.levels[level];
+    const spaces = " ".repeat(Math.max(0, this.settings.padding - level.length));
     let template =
-      level === "HTTP"
+      level === LoggerConfig.LevelName.Http
         ? this.settings.prettyHttpTemplate
-        : level === "ERROR"
+        : severity >= LoggerConfig.Severity.ERROR
         ? this.settings.prettyErrorTemplate
         : this.settings.prettyTemplate;
 
@@ -501,36 +1225,237 @@ class PrettyLogger extends BaseLogger {
       );
     }
 
-    return template.replaceAll(
-      "{log.level}",
-      LoggerConfig.Theme[level](`{log.level}${spaces}`),
-    );
+    return template.replaceAll("{log.level}", color(`{log.level}${spaces}`));
   }
 
-  protected format(logObject: LogObject) {
-    return this.applyTemplate(
+  public format(logObject: LogObject) {
+    const output = this.applyTemplate(
       this.getPrettyTemplate(
         logObject["log.level"],
         logObject["http.response.status_code"],
       ),
       logObject,
     );
+
+    return this.settings.colors ? output : stripAnsi(output);
   }
 }
 
-class JsonLogger extends BaseLogger {
-  protected format(logObject: LogObject) {
-    return JSON.stringify(logObject, null, 2);
+class JsonFormatter extends Formatter {
+  protected indentation?: number = 2;
+
+  public format(logObject: LogObject) {
+    return JSON.stringify(this.toRecord(logObject), null, this.indentation);
+  }
+
+  protected toRecord(logObject: LogObject) {
+    const record: Record<string, unknown> = {
+      ...logObject,
+      data: toSerializable(logObject.data),
+    };
+
+    if (this.settings.jsonStyle === LoggerConfig.JsonStyle.Flat) {
+      return record;
+    }
+
+    const stack = logObject["error.stack_trace"];
+
+    if (stack) {
+      record["error.stack_trace"] = stack.map(stringifyCallSite).join("\n");
+      record["error.cause"] = stringifyStacks(logObject["error.cause"]);
+      record["error.errors"] = logObject["error.errors"]?.map(stringifyStacks);
+    }
+
+    return nestDottedKeys(record);
   }
 }
 
-// @ts-ignore: ¯\_(ツ)_/¯
-export class Logger extends BaseLogger {
-  constructor(settings: LoggerConfig.SettingsInput) {
-    super(settings);
+class NdjsonFormatter extends JsonFormatter {
+  protected indentation = undefined;
+}
+
+class LogfmtFormatter extends Formatter {
+  public format(logObject: LogObject) {
+    const pairs: string[] = [];
+
+    for (const [key, value] of Object.entries(logObject)) {
+      if (value === undefined || value === "") continue;
+
+      pairs.push(`${key}=${this.formatValue(value)}`);
+    }
+
+    return pairs.join(" ");
+  }
+
+  protected formatValue(value: unknown) {
+    const text =
+      typeof value === "string" ? value : JSON.stringify(toSerializable(value));
+
+    return /[\s"=\\]/.test(text) ? JSON.stringify(text) : text;
+  }
+}
+
+const FormatterByMode: Record<
+  LoggerConfig.Mode,
+  new (settings: LoggerConfig.Settings) => Formatter
+> = {
+  [LoggerConfig.Mode.Pretty]: PrettyFormatter,
+  [LoggerConfig.Mode.Json]: JsonFormatter,
+  [LoggerConfig.Mode.Ndjson]: NdjsonFormatter,
+  [LoggerConfig.Mode.Logfmt]: LogfmtFormatter,
+};
+
+/**
+ * Converts a value into one that `JSON.stringify` can handle without throwing or losing
+ * information.
+ *
+ * - Errors keep their name, message, stack, cause and any custom property.
+ * - BigInts become strings.
+ * - Maps become objects and Sets become arrays.
+ * - Circular references are replaced by `"[Circular]"`.
+ *
+ * @param value - The value to convert.
+ * @returns A JSON-safe copy of the value.
+ *
+ * @example
+ *
+ * ```ts
+ * import { toSerializable } from "./logger.ts";
+ *
+ * const value: Record<string, unknown> = { id: 1n, tags: new Map([["a", 1]]) };
+ * value.self = value;
+ *
+ * const json = JSON.stringify(toSerializable(value));
+ *
+ * console.assert(json === '{"id":"1","tags":{"a":1},"self":"[Circular]"}');
+ * ```
+ */
+export function toSerializable(value: unknown) {
+  return serialize(value, []);
+}
+
+function serialize(value: unknown, ancestors: unknown[]): unknown {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+
+  if (typeof value === "function") {
+    return `[Function ${value.name || "anonymous"}]`;
+  }
+
+  if (typeof value !== "object" || value === null || value instanceof Date) {
+    return value;
+  }
+
+  if (ancestors.includes(value)) {
+    return "[Circular]";
+  }
+
+  const path = [...ancestors, value];
+  const serializeItem = (item: unknown) => serialize(item, path);
+
+  if (Array.isArray(value) || value instanceof Set) {
+    return Array.from(value, serializeItem);
+  }
+
+  if (value instanceof Map) {
+    return Object.fromEntries(
+      Array.from(value, ([key, item]) => [String(key), serializeItem(item)]),
+    );
+  }
+
+  const entries = Object.entries(value);
 
-    const parent =
-      this.settings.mode === LoggerConfig.Mode.Pretty ? PrettyLogger : JsonLogger;
-    Object.setPrototypeOf(this, parent.prototype);
+  if (value instanceof Error) {
+    entries.unshift(
+      ["name", value.name],
+      ["message", value.message],
+      ["stack", value.stack],
+    );
+
+    if ("cause" in value) {
+      entries.push(["cause", value.cause]);
+    }
   }
+
+  return Object.fromEntries(entries.map(([key, item]) => [key, serializeItem(item)]));
+}
+
+function getConsoleMethod(severity: number) {
+  if (severity >= LoggerConfig.Severity.ERROR) return console.error;
+  if (severity >= LoggerConfig.Severity.WARN) return console.warn;
+  if (severity >= LoggerConfig.Severity.INFO) return console.info;
+
+  return console.debug;
+}
+
+/**
+ * Gets the outermost call site with a file, where the log was written from.
+ */
+function findOrigin(sites: ExpandedCallSite[]) {
+  const withFile = sites.filter((site) => site.fileName);
+
+  return withFile[withFile.length - 1] as AllNonNullable<ExpandedCallSite> | undefined;
+}
+
+function getLogOrigin(error?: LogObject.Error) {
+  return (
+    (error instanceof Error && findOrigin(getErrorCallSites(error))) ||
+    findOrigin(callsites())
+  );
+}
+
+function createSpanId() {
+  return crypto.randomUUID().replaceAll("-", "").substring(0, 16);
+}
+
+function formatDuration(duration: number) {
+  return `${duration.toFixed(2)}ms`;
+}
+
+function isLogContext(value: unknown): value is LogContext {
+  return value instanceof LogContext;
+}
+
+function mergeContexts(...contexts: LoggerConfig.Context[]) {
+  const labels: Record<string, string> = {};
+  const tags = new Set<string>();
+
+  for (const context of contexts) {
+    Object.assign(labels, context.labels);
+    context.tags?.forEach((tag) => tags.add(tag));
+  }
+
+  return { labels, tags: [...tags] };
+}
+
+function nestDottedKeys(record: Record<string, unknown>) {
+  const nested: Record<string, SafeAny> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    if (value === undefined) continue;
+
+    const path = key.startsWith("@") ? [key] : key.split(".");
+    const last = path.pop() as string;
+    let target = nested;
+
+    for (const segment of path) {
+      target = target[segment] ??= {};
+    }
+
+    target[last] = value;
+  }
+
+  return nested;
+}
+
+function stringifyStacks(node?: ErrorNode): Record<string, unknown> | undefined {
+  return (
+    node && {
+      ...node,
+      stack_trace: node.stack_trace.map(stringifyCallSite).join("\n"),
+      cause: stringifyStacks(node.cause),
+      errors: node.errors?.map(stringifyStacks),
+    }
+  );
 }
@@ -1,14 +1,15 @@
 import { existsSync } from "https://deno.land/std@0.208.0/fs/exists.ts";
 import { dirname } from "https://deno.land/std@0.208.0/path/dirname.ts";
-import { ansicolors } from "./deps.ts";
-import { Logger } from "./logger.ts";
+import { ansi } from "./ansi.ts";
+import { Logger, LoggerConfig } from "./logger.ts";
 
-const logger = new Logger({
+const fallbackLogger = new Logger({
   application: "process",
-  severity: "INFORMATIONAL",
+  severity: "INFO",
   mode: "PRETTY",
   environment: "",
 });
+const moduleLoggers = new WeakMap<Logger, Logger>();
 
 /**
  * Custom error class for subprocess errors.
@@ -33,6 +34,24 @@ export class SubprocessError extends Error {
   }
 }
 
+/**
+ * Thrown when a subprocess is stopped because it ran longer than its timeout.
+ */
+export class SubprocessTimeoutError extends SubprocessError {
+  /**
+   * Constructs a new `SubprocessTimeoutError`.
+   *
+   * @param name - The name of the command that was executed
+   * @param timeout - The timeout of the command, in milliseconds
+   * @param output - The stderr output of the command until it was stopped
+   * @param args - Optional arguments passed to the command
+   */
+  constructor(name: string, timeout: number, output: Uint8Array, args?: string[]) {
+    super(name, output, args);
+    this.message = `The command ${name} timed out after ${timeout}ms.`;
+  }
+}
+
 /**
  * Executes the given command synchronously using `Deno.Command`,
  * throwing a `SubprocessError` if the exit code is non-zero.
@@ -75,6 +94,250 @@ export async function executeCommandAsync(main: string, options?: Deno.CommandOp
   return new TextDecoder().decode(stdout).trim();
 }
 
+/**
+ * Executes the given command using `Deno.Command`, yielding its stdout output as text
+ * chunks as soon as they are available, and throwing a `SubprocessError` if the exit
+ * code is non-zero.
+ *
+ * If the consumer stops iterating before the command finishes, the subprocess is killed.
+ *
+ * @param main - The command to execute.
+ * @param options - Optional options to pass to `Deno.Command`.
+ * @returns An async iterator of stdout text chunks.
+ * @throws - {@link SubprocessError}
+ */
+export async function* executeCommandStream(main: string, options?: Deno.CommandOptions) {
+  const command = initExecuteCommand(main, {
+    ...options,
+    stdout: "piped",
+    stderr: "piped",
+  });
+  const child = command.spawn();
+  const stderr = new Response(child.stderr).arrayBuffer();
+  let finished = false;
+
+  try {
+    for await (const chunk of child.stdout.pipeThrough(new TextDecoderStream())) {
+      yield chunk;
+    }
+
+    finished = true;
+  } finally {
+    if (!finished) {
+      killIfRunning(child);
+      await Promise.all([child.status, stderr]);
+    }
+  }
+
+  const { code } = await child.status;
+
+  if (code !== 0) {
+    throw new SubprocessError(main, new Uint8Array(await stderr), options?.args);
+  }
+}
+
+/**
+ * Options for {@link spawnCommand}.
+ */
+export type SpawnOptions = Omit<
+  Deno.CommandOptions,
+  "stdin" | "stdout" | "stderr" | "signal"
+> & {
+  /**
+   * Text or bytes written to the stdin of the command, which is closed afterwards.
+   */
+  input?: string | Uint8Array;
+  /**
+   * The time after which the command is stopped, in milliseconds.
+   */
+  timeout?: number;
+  /**
+   * Stops the command when aborted.
+   */
+  signal?: AbortSignal;
+  /**
+   * The time between `SIGTERM` and `SIGKILL` when the command is stopped, in
+   * milliseconds. Defaults to `5000`.
+   */
+  killDelay?: number;
+  /**
+   * The level of the stdout lines. Defaults to `INFO`.
+   */
+  stdoutLevel?: LoggerConfig.LevelName;
+  /**
+   * The level of the stderr lines. Defaults to `INFO`.
+   */
+  stderrLevel?: LoggerConfig.LevelName;
+  /**
+   * Captures the output without logging it.
+   */
+  quiet?: boolean;
+  /**
+   * Whether a non-zero exit code throws a `SubprocessError`. Defaults to `true`.
+   */
+  check?: boolean;
+};
+
+/**
+ * The result of {@link spawnCommand}.
+ */
+export type SpawnResult = {
+  /**
+   * The exit code of the command.
+   */
+  code: number;
+  /**
+   * The signal that stopped the command, if any.
+   */
+  signal: Deno.Signal | null;
+  /**
+   * Whether the exit code is zero.
+   */
+  success: boolean;
+  /**
+   * How long the command ran, in milliseconds.
+   */
+  duration: number;
+  /**
+   * The captured stdout output.
+   */
+  stdout: string;
+  /**
+   * The captured stderr output.
+   */
+  stderr: string;
+};
+
+/**
+ * Spawns the given command using `Deno.Command`, logging its stdout and stderr line by
+ * line as soon as they are available. The lines are logged by a sub-logger of the
+ * `process` module with the `command` label.
+ *
+ * When the timeout ends or the signal is aborted, the command receives `SIGTERM`, and
+ * `SIGKILL` if it's still running after `killDelay` milliseconds. If logging a line fails,
+ * the command is killed before the error is thrown.
+ *
+ * @param main - The command to execute.
+ * @param options - The options of the command.
+ * @returns A promise that resolves to the exit code, duration and output of the command.
+ * @throws - {@link SubprocessTimeoutError} when the timeout ends.
+ * @throws - The reason of the signal when it's aborted.
+ * @throws - {@link SubprocessError} when the exit code is non-zero, unless `check` is
+ * `false`.
+ * @throws - An error when `stdoutLevel` or `stderrLevel` isn't a level of the logger.
+ *
+ * @example
+ *
+ * ```ts
+ * import { spawnCommand } from "./process.ts";
+ *
+ * const result = await spawnCommand("deno", {
+ *   args: ["eval", "console.log(await new Response(Deno.stdin.readable).text())"],
+ *   input: "Hello!",
+ *   timeout: 10_000,
+ * });
+ *
+ * console.assert(result.stdout === "Hello!\n");
+ * ```
+ */
+export async function spawnCommand(
+  main: string,
+  options: SpawnOptions = {},
+): Promise<SpawnResult> {
+  const {
+    input,
+    timeout,
+    signal,
+    killDelay = 5000,
+    stdoutLevel = LoggerConfig.LevelName.Info,
+    stderrLevel = LoggerConfig.LevelName.Info,
+    quiet = false,
+    check = true,
+    ...commandOptions
+  } = options;
+
+  signal?.throwIfAborted();
+
+  const logger = getLogger().getSubLogger({ labels: { command: main } });
+
+  for (const level of [stdoutLevel, stderrLevel]) {
+    if (!Object.hasOwn(logger.settings.levels, level)) {
+      throw new Error(`The level ${level} isn't defined in the logger.`);
+    }
+  }
+
+  const child = initExecuteCommand(main, {
+    ...commandOptions,
+    stdin: input === undefined ? "null" : "piped",
+    stdout: "piped",
+    stderr: "piped",
+  }).spawn();
+  const start = performance.now();
+  let stopReason: "timeout" | "abort" | undefined;
+  let killTimer: number | undefined;
+  let exited = false;
+
+  child.status.then(() => {
+    exited = true;
+  });
+
+  const stop = (reason: "timeout" | "abort") => {
+    if (stopReason) return;
+
+    stopReason = reason;
+    killIfRunning(child, "SIGTERM");
+    killTimer = setTimeout(() => killIfRunning(child, "SIGKILL"), killDelay);
+  };
+  const onAbort = () => stop("abort");
+  const timeoutTimer =
+    timeout === undefined ? undefined : setTimeout(() => stop("timeout"), timeout);
+
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    const [status, stdout, stderr] = await Promise.all([
+      child.status,
+      readLines(child.stdout, (line) => quiet || logger.log(stdoutLevel, line)),
+      readLines(child.stderr, (line) => quiet || logger.log(stderrLevel, line)),
+      input !== undefined && writeInput(child.stdin, input),
+    ]);
+    const duration = performance.now() - start;
+
+    logger.debug(
+      `The command ${main} exited with code ${status.code} in ${duration.toFixed(2)}ms.`,
+    );
+
+    if (stopReason === "abort") {
+      throw signal?.reason;
+    }
+
+    if (stopReason === "timeout") {
+      throw new SubprocessTimeoutError(
+        main,
+        timeout as number,
+        new TextEncoder().encode(stderr),
+        options.args,
+      );
+    }
+
+    if (check && !status.success) {
+      throw new SubprocessError(main, new TextEncoder().encode(stderr), options.args);
+    }
+
+    return { ...status, duration, stdout, stderr };
+  } finally {
+    clearTimeout(timeoutTimer);
+    clearTimeout(killTimer);
+    signal?.removeEventListener("abort", onAbort);
+
+    // Logging a line or reading the output failed before the command exited.
+    if (!exited) {
+      killIfRunning(child, "SIGKILL");
+      await child.status;
+    }
+  }
+}
+
 /**
  * Creates an empty file at the given filepath if the parent directory exists.
  * Uses the `touch` command to create the file.
@@ -90,17 +353,86 @@ export function touch(filepath: string) {
 }
 
 function formatStringCommand(command: string, args: string[] = []) {
-  const prompt = ansicolors.greenBright("$");
-  const cmd = ansicolors.greenBright.bold(command);
-  const opts = ansicolors.white(args.join(" "));
+  const prompt = ansi.greenBright("$");
+  const cmd = ansi.greenBright.bold(command);
+  const opts = ansi.white(args.join(" "));
+
+  return ansi.bgBlack(`${prompt} ${cmd} ${opts}`);
+}
+
+function killIfRunning(child: Deno.ChildProcess, signal?: Deno.Signal) {
+  try {
+    child.kill(signal);
+  } catch {
+    // The process already exited.
+  }
+}
+
+/**
+ * Reads a stream of bytes as text, calling `onLine` with each complete line.
+ *
+ * @returns The whole text.
+ */
+async function readLines(
+  stream: ReadableStream<Uint8Array>,
+  onLine: (line: string) => void,
+) {
+  let text = "";
+  let pending = "";
+
+  for await (const chunk of stream.pipeThrough(new TextDecoderStream())) {
+    const lines = (pending + chunk).split("\n");
+
+    text += chunk;
+    pending = lines.pop() as string;
+    lines.forEach((line) => onLine(line.replace(/\r$/, "")));
+  }
+
+  if (pending) {
+    onLine(pending.replace(/\r$/, ""));
+  }
 
-  return ansicolors.bgBlack(`${prompt} ${cmd} ${opts}`);
+  return text;
+}
+
+async function writeInput(stdin: WritableStream<Uint8Array>, input: string | Uint8Array) {
+  const writer = stdin.getWriter();
+
+  try {
+    await writer.write(
+      typeof input === "string" ? new TextEncoder().encode(input) : input,
+    );
+    await writer.close();
+  } catch {
+    // The process exited without reading its whole input.
+  }
 }
 
 function initExecuteCommand(main: string, options?: Deno.CommandOptions) {
   const command = new Deno.Command(main, options);
 
-  logger.debug(`Executing command: \n  ${formatStringCommand(main, options?.args)}`);
+  getLogger().debug(`Executing command: \n  ${formatStringCommand(main, options?.args)}`);
 
   return command;
 }
+
+/**
+ * Gets the logger of the module: a child of the global logger, so the thresholds set for
+ * the `process` module apply, or a standalone one when there's no global logger.
+ */
+function getLogger() {
+  const parent = globalThis.logger;
+
+  if (!parent) {
+    return fallbackLogger;
+  }
+
+  let logger = moduleLoggers.get(parent);
+
+  if (!logger) {
+    logger = parent.getSubLogger({ module: "process" });
+    moduleLoggers.set(parent, logger);
+  }
+
+  return logger;
+}
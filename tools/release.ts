@@ -0,0 +1,233 @@
+// deno-lint-ignore-file no-namespace
+import { ChangeCategory, getChangeCategory } from "./changelog.ts";
+import { getUnreleasedCommits, type ParsedCommit } from "./commits.ts";
+import type { Git } from "./git.ts";
+import { getCurrentVersion, type ReleaseType } from "./semver.ts";
+
+/**
+ * Matches the strings, comments and brackets of a JSON (or JSONC) file.
+ */
+const JSON_TOKEN_REGEX = /"(?:[^"\\]|\\.)*"|\/\/[^\n]*|\/\*[\s\S]*?\*\/|[{}[\]]/g;
+
+const JSON_STRING_VALUE_REGEX = /\s*:\s*("(?:[^"\\]|\\.)*")/y;
+
+/**
+ * Files that may hold the version of a project.
+ */
+export const VERSION_FILES = ["package.json", "deno.json", "jsr.json"];
+
+const RELEASE_TYPE_BY_CATEGORY: Record<ChangeCategory, ReleaseType> = {
+  [ChangeCategory.Added]: "minor",
+  [ChangeCategory.Changed]: "patch",
+  [ChangeCategory.Deprecated]: "patch",
+  [ChangeCategory.Removed]: "patch",
+  [ChangeCategory.Fixed]: "patch",
+  [ChangeCategory.Security]: "patch",
+};
+
+const RELEASE_TYPE_PRIORITY: ReleaseType[] = ["major", "minor", "patch"];
+
+const RELEASE_TYPE_REASON = {
+  major: "breaking change",
+  minor: "new feature",
+  patch: "fix or change",
+} as const;
+
+/**
+ * Recommends the type of release to perform based on a list of commits.
+ *
+ * - Breaking changes result in a **major** release.
+ * - New features result in a **minor** release.
+ * - Fixes and any other change listed in the changelog result in a **patch** release.
+ *
+ * When none of the commits would appear in the changelog (like docs or chores), no release
+ * is recommended.
+ *
+ * @param commits - The commits that haven't been released yet.
+ * @returns The recommended release type and the commits that drove the decision.
+ *
+ * @example
+ *
+ * ```ts
+ * import { parseCommit } from "./commits.ts";
+ * import { inferReleaseType } from "./release.ts";
+ *
+ * const commits = [
+ *   { id: "a1b2c3d", subject: "feat: add bump command" },
+ *   { id: "e4f5a6b", subject: "fix: handle empty tags" },
+ * ].map(parseCommit);
+ *
+ * const recommendation = inferReleaseType(commits);
+ *
+ * console.assert(recommendation.type === "minor");
+ * console.assert(recommendation.commits[0].id === "a1b2c3d");
+ * ```
+ */
+export function inferReleaseType<C extends Release.Commit>(
+  commits: C[],
+): Release.Recommendation<C> {
+  const byType: Record<ReleaseType, C[]> = { major: [], minor: [], patch: [] };
+
+  for (const commit of commits) {
+    const type = getCommitReleaseType(commit);
+
+    if (type) {
+      byType[type].push(commit);
+    }
+  }
+
+  const type = RELEASE_TYPE_PRIORITY.find((t) => byType[t].length > 0);
+
+  if (!type) {
+    return {
+      type: null,
+      commits: [],
+      reason: `None of the ${commits.length} commit(s) require a release.`,
+    };
+  }
+
+  const drivers = byType[type];
+
+  return {
+    type,
+    commits: drivers,
+    reason: `A ${type} release is required because of ${drivers.length} ${RELEASE_TYPE_REASON[type]}(s).`,
+  };
+}
+
+/**
+ * Gets the release type a single commit requires on its own.
+ *
+ * @param commit - The parsed commit.
+ * @returns The release type, or `null` if the commit doesn't require a release.
+ */
+export function getCommitReleaseType(commit: Release.Commit): ReleaseType | null {
+  if (commit.breaking) {
+    return "major";
+  }
+
+  const category = getChangeCategory(commit);
+
+  return category ? RELEASE_TYPE_BY_CATEGORY[category] : null;
+}
+
+/**
+ * Gathers everything needed to release the next version of a repository: the latest
+ * version tag, the commits after it, and the next version.
+ *
+ * @param git - The {@link Git} instance of the repository.
+ * @param options - Overrides for the release.
+ * @returns The release plan. `next` is `null` when no release is needed.
+ */
+export function getReleasePlan(git: Git, options: Release.PlanOptions = {}) {
+  const { latestTag, commits } = getUnreleasedCommits(git);
+  const current = getCurrentVersion(latestTag ? latestTag.replace(/^v/, "") : "0.0.0");
+  const recommendation = inferReleaseType(commits);
+  const type = options.type || recommendation.type;
+  const next = type ? current.getNextVersion(type, options.prerelease) : null;
+
+  return { latestTag, current, commits, recommendation, type, next };
+}
+
+/**
+ * Replaces the value of the top-level `version` field in the content of a JSON file,
+ * keeping the rest of the file untouched. Nested `version` fields and comments are
+ * ignored.
+ *
+ * @param content - The content of the JSON file.
+ * @param version - The new version.
+ * @returns The new content, or `null` if the file doesn't have a `version` field.
+ *
+ * @example
+ *
+ * ```ts
+ * import { replaceVersionField } from "./release.ts";
+ *
+ * const content = `{\n  "name": "toolkit",\n  "version": "0.1.0"\n}\n`;
+ *
+ * console.assert(replaceVersionField(content, "0.2.0")?.includes(`"version": "0.2.0"`));
+ * console.assert(replaceVersionField("{}", "0.2.0") === null);
+ * ```
+ */
+export function replaceVersionField(content: string, version: string) {
+  const value = findTopLevelString(content, "version");
+
+  if (!value) {
+    return null;
+  }
+
+  return (
+    content.slice(0, value.start) + JSON.stringify(version) + content.slice(value.end)
+  );
+}
+
+export namespace Release {
+  /**
+   * The minimum commit data needed to infer a release type.
+   */
+  export type Commit = Pick<ParsedCommit, "type" | "breaking">;
+
+  /**
+   * A release type recommendation and the commits that drove it.
+   */
+  export type Recommendation<C> = {
+    /**
+     * The recommended release type, or `null` when no release is needed.
+     */
+    type: ReleaseType | null;
+    /**
+     * The commits that require the recommended release type.
+     */
+    commits: C[];
+    /**
+     * A human readable explanation of the recommendation.
+     */
+    reason: string;
+  };
+
+  /**
+   * Options to override the inferred release.
+   */
+  export type PlanOptions = {
+    /**
+     * Forces a release type instead of inferring it.
+     */
+    type?: ReleaseType;
+    /**
+     * The prerelease identifier to use, like the rc in `1.2.0-rc.8`.
+     */
+    prerelease?: string;
+  };
+}
+
+/**
+ * Finds the string value of a field of the top-level object of a JSON file.
+ *
+ * @returns The position of the value, quotes included, or `null` if there's no such
+ * string field.
+ */
+function findTopLevelString(content: string, key: string) {
+  let depth = 0;
+
+  for (const match of content.matchAll(JSON_TOKEN_REGEX)) {
+    const [token] = match;
+
+    if (token === "{" || token === "[") {
+      depth++;
+    } else if (token === "}" || token === "]") {
+      depth--;
+    } else if (depth === 1 && token.startsWith('"') && JSON.parse(token) === key) {
+      JSON_STRING_VALUE_REGEX.lastIndex = (match.index || 0) + token.length;
+
+      const value = JSON_STRING_VALUE_REGEX.exec(content)?.[1];
+
+      if (value) {
+        const end = JSON_STRING_VALUE_REGEX.lastIndex;
+
+        return { start: end - value.length, end };
+      }
+    }
+  }
+
+  return null;
+}
@@ -76,14 +76,82 @@ export class VersionObject {
   /**
    * Get the next version by the specified release type.
    *
+   * If the current version is already a prerelease with the same identifier that includes
+   * a release of the given type, the prerelease number is incremented instead.
+   * For example, a minor release of `1.3.0-rc.1` with the `rc` identifier gives `1.3.0-rc.2`,
+   * while a major release gives `2.0.0-rc.0`.
+   *
    * @param type - The type of release (major, minor, or patch).
    * @param prerelease - The "prerelease identifier" to use as a prefix for the "prerelease" part of a semver. Like the rc in `1.2.0-rc.8`.
    * @returns A new `VersionObject` instance representing the next version.
    */
   getNextVersion(type: ReleaseType, prelease?: string) {
+    if (prelease && this.isPrereleaseOf(type, prelease)) {
+      return this.getNextPrerelease(prelease);
+    }
+
     return this[VersionObject.getMethodNameByReleaseType(type)](prelease);
   }
 
+  /**
+   * Checks if the current version is a prerelease with the given identifier that already
+   * includes a release of the given type.
+   *
+   * @param type - The type of release (major, minor, or patch).
+   * @param prerelease - The "prerelease identifier", like the rc in `1.2.0-rc.8`.
+   * @returns `true` if the version is a prerelease of that kind, `false` otherwise.
+   *
+   * @example
+   *
+   * ```ts
+   * import { VersionObject } from "./versioning.ts";
+   *
+   * const currentVersion = new VersionObject("1.3.0-rc.1");
+   *
+   * console.assert(currentVersion.isPrereleaseOf("minor", "rc"));
+   * console.assert(currentVersion.isPrereleaseOf("major", "rc") === false);
+   * console.assert(currentVersion.isPrereleaseOf("minor", "beta") === false);
+   * ```
+   */
+  isPrereleaseOf(type: ReleaseType, prelease: string) {
+    const [identifier] = this.semver.prerelease;
+
+    if (identifier !== prelease) {
+      return false;
+    }
+
+    if (type === "major") {
+      return this.semver.minor === 0 && this.semver.patch === 0;
+    }
+
+    if (type === "minor") {
+      return this.semver.patch === 0;
+    }
+
+    return true;
+  }
+
+  /**
+   * Get the next prerelease version.
+   *
+   * @param prerelease - The "prerelease identifier" to use as a prefix for the "prerelease" part of a semver. Like the rc in `1.2.0-rc.8`.
+   * @returns A new VersionObject instance representing the next prerelease version.
+   *
+   * @example
+   *
+   * ```ts
+   * import { VersionObject } from "./versioning.ts";
+   *
+   * const currentVersion = new VersionObject("1.3.0-rc.1");
+   * const nextPrerelease = currentVersion.getNextPrerelease("rc");
+   *
+   * console.assert(nextPrerelease.version === "1.3.0-rc.2");
+   * ```
+   */
+  getNextPrerelease(prelease: string) {
+    return new VersionObject(increment(this.semver, "prerelease", prelease));
+  }
+
   /**
    * Get the next patch version.
    *
@@ -194,3 +262,47 @@ export function isValidReleaseType(value: string): value is ReleaseType {
 export function sortVersions(...versions: string[]) {
   return sort(versions.map(parse)).map((v) => `v${format(v)}`);
 }
+
+/**
+ * Checks if the given string can be parsed as a semantic version.
+ *
+ * @param value - The string to check, like `1.2.3` or `v1.2.3-rc.1`.
+ * @returns `true` if the value is a valid semantic version, `false` otherwise.
+ */
+export function isValidVersion(value: string) {
+  try {
+    parse(value);
+
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gets the tag with the highest semantic version, ignoring any tag that isn't a version.
+ *
+ * @param tags - The list of tags to look into, like the output of `git tag`.
+ * @returns The latest version tag as it was given, or `null` if there isn't any.
+ *
+ * @example
+ *
+ * ```ts
+ * import { getLatestVersionTag } from "./semver.ts";
+ *
+ * const latest = getLatestVersionTag("v1.0.0", "v1.10.0", "nightly", "v1.2.0");
+ *
+ * console.assert(latest === "v1.10.0");
+ * console.assert(getLatestVersionTag("nightly") === null);
+ * ```
+ */
+export function getLatestVersionTag(...tags: string[]) {
+  const versionTags = tags.filter(isValidVersion);
+  const [latest] = sortVersions(...versionTags).slice(-1);
+
+  if (!latest) {
+    return null;
+  }
+
+  return versionTags.find((tag) => `v${format(parse(tag))}` === latest) || null;
+}